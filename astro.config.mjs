@@ -1,7 +1,39 @@
+import { readdirSync } from 'node:fs';
 import { defineConfig } from 'astro/config';
 import tailwind from '@astrojs/tailwind';
+import node from '@astrojs/node';
+import { defaultLocale, dictionaryFilePattern } from './src/i18n/config.ts';
+
+// Locales come from the dictionary files — adding de.ts adds /de/
+const locales = readdirSync(new URL('./src/i18n/', import.meta.url))
+  .map((file) => dictionaryFilePattern.exec(file)?.[1])
+  .filter(Boolean);
+
+// …and makes 'de' a valid Locale: the type is generated from the same list
+const localeTypes = {
+  name: 'itsees-locales',
+  hooks: {
+    'astro:config:done': ({ injectTypes }) => {
+      injectTypes({
+        filename: 'locales.d.ts',
+        content: `declare namespace I18n {\n  type Locale = ${locales.map((code) => `'${code}'`).join(' | ')};\n}\n`,
+      });
+    },
+  },
+};
 
 export default defineConfig({
-  integrations: [tailwind()],
-  output: 'static',
+  // Absolute URLs for canonical links, hreflang alternates and the sitemap
+  site: 'https://itsees.nl',
+  integrations: [tailwind(), localeTypes],
+  // Pages stay prerendered; only routes with `prerender = false` (the contact endpoint) run on the server
+  output: 'hybrid',
+  adapter: node({ mode: 'standalone' }),
+  i18n: {
+    defaultLocale,
+    locales,
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
 });
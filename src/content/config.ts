@@ -0,0 +1,66 @@
+import { defineCollection, z } from 'astro:content';
+import { serviceIcons, type ServiceIconName } from '../data/service-icons';
+
+// ==============================================
+// CONTENT COLLECTIONS
+// One entry per item per locale, in a folder named after the locale:
+// services/nl/managed-hosting.yaml, stages/en/build.md, work/en/harbour-coffee.md
+// The file name is the item's key across locales (and the stage's
+// #stage-<key> anchor); `order` sorts the list.
+// ==============================================
+
+const text = z.string().trim().min(1);
+const iconNames = Object.keys(serviceIcons) as [ServiceIconName, ...ServiceIconName[]];
+
+const services = defineCollection({
+  type: 'data',
+  schema: z.object({
+    order: z.number().int(),
+    icon: z.enum(iconNames),
+    title: text,
+    description: text,
+  }),
+});
+
+// The Markdown body is the stage's long-form details
+const stages = defineCollection({
+  type: 'content',
+  schema: z.object({
+    order: z.number().int(),
+    title: text,
+    description: text,
+  }),
+});
+
+// Case studies. `services` and `stages` hold keys from the collections above
+const work = defineCollection({
+  type: 'content',
+  schema: ({ image }) => {
+    const caseStudy = <Picture extends z.ZodTypeAny>(picture: Picture) =>
+      z.object({
+        order: z.number().int(),
+        featured: z.boolean().default(false), // listed under "Selected work" on the home page
+        title: text,
+        client: text,
+        year: z.number().int(),
+        summary: text,
+        services: z.array(z.string()).default([]),
+        stages: z.array(z.string()).default([]),
+        cover: picture,
+        gallery: z.array(z.object({ image: picture, alt: text })).default([]),
+        metrics: z.array(z.object({ value: text, label: text })).default([]),
+      });
+
+    // Drafts are shown in dev only. A production build leaves their images
+    // as paths, because image() is what emits a file into the build.
+    return z.preprocess(
+      (data) => ({ draft: false, ...(data as object) }),
+      z.discriminatedUnion('draft', [
+        caseStudy(image()).extend({ draft: z.literal(false) }),
+        caseStudy(import.meta.env.DEV ? image() : z.string()).extend({ draft: z.literal(true) }),
+      ]),
+    );
+  },
+});
+
+export const collections = { services, stages, work };
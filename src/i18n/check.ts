@@ -0,0 +1,111 @@
+// ==============================================
+// TRANSLATION INTEGRITY
+// Walks every locale's copy alongside the source locale and reports what
+// would silently break a page: entries missing from (or only present in)
+// one locale, lists of a different length, empty strings, and strings that
+// were copied over but never translated. Used for the dictionaries and for
+// the content collections.
+// ==============================================
+
+export interface TranslationIssue {
+  path: string; // e.g. "footer.form.name" or "stages.design.title"
+  message: string;
+}
+
+export interface TranslationReport {
+  locale: string;
+  issues: TranslationIssue[];
+}
+
+export interface TranslationCheckOptions {
+  sourceLocale: string;
+  // Strings that may legitimately match the source copy, e.g. "Scroll"
+  allowlist: string[];
+}
+
+type Copy = Record<string, unknown>;
+
+function walk(
+  value: unknown,
+  source: unknown,
+  path: string,
+  isSource: boolean,
+  options: TranslationCheckOptions,
+  issues: TranslationIssue[],
+) {
+  if (Array.isArray(source)) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: 'expected a list' });
+      return;
+    }
+    if (value.length !== source.length) {
+      issues.push({ path, message: `has ${value.length} entries, expected ${source.length}` });
+    }
+    value.forEach((item, i) => walk(item, source[i], `${path}[${i}]`, isSource, options, issues));
+    return;
+  }
+
+  if (source && typeof source === 'object') {
+    if (!value || typeof value !== 'object') {
+      issues.push({ path, message: 'missing' });
+      return;
+    }
+    const join = (key: string) => (path ? `${path}.${key}` : key);
+    for (const key of Object.keys(source)) {
+      walk((value as Copy)[key], (source as Copy)[key], join(key), isSource, options, issues);
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in source)) issues.push({ path: join(key), message: `not in ${options.sourceLocale}` });
+    }
+    return;
+  }
+
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'missing' });
+  } else if (value.trim() === '') {
+    issues.push({ path, message: 'is empty' });
+  } else if (!isSource && value === source && !options.allowlist.includes(value)) {
+    issues.push({ path, message: `untranslated ("${value}")` });
+  }
+}
+
+/** Check every locale's copy against the source locale. Pure — no I/O. */
+export function checkTranslations(
+  copyByLocale: Record<string, Copy>,
+  options: TranslationCheckOptions,
+): TranslationReport[] {
+  const source = copyByLocale[options.sourceLocale];
+  if (!source) throw new Error(`[i18n] Source locale "${options.sourceLocale}" has no copy`);
+
+  return Object.entries(copyByLocale).map(([locale, copy]) => {
+    const issues: TranslationIssue[] = [];
+    walk(copy, source, '', locale === options.sourceLocale, options, issues);
+    return { locale, issues };
+  });
+}
+
+/** One block per locale, for the build log */
+export function formatTranslationReport(reports: TranslationReport[]): string {
+  return reports
+    .map(({ locale, issues }) =>
+      issues.length
+        ? [`  ${locale}: ${issues.length} issue(s)`, ...issues.map((issue) => `    ${issue.path} ${issue.message}`)].join('\n')
+        : `  ${locale}: ok`,
+    )
+    .join('\n');
+}
+
+/**
+ * Log the report — always during a build, only on problems in dev — and
+ * fail the build if any locale has issues.
+ */
+export function enforceTranslations(name: string, reports: TranslationReport[]) {
+  const failed = reports.some((report) => report.issues.length > 0);
+
+  if (import.meta.env.PROD || failed) {
+    (failed ? console.warn : console.log)(`[i18n] ${name} check\n${formatTranslationReport(reports)}`);
+  }
+  if (failed && import.meta.env.PROD) {
+    throw new Error(`[i18n] ${name} check failed — see the report above`);
+  }
+}
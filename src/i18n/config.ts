@@ -0,0 +1,14 @@
+// Every two-letter dictionary next to this file (nl.ts, en.ts, …) is a locale
+export const dictionaryFilePattern = /^([a-z]{2})\.ts$/;
+
+// The union of those codes, generated into .astro/ by astro.config.mjs
+export type Locale = I18n.Locale;
+
+// Locale served at the site root; every other locale lives under /<code>/
+export const defaultLocale: Locale = 'nl';
+
+// Dictionaries are typed after this one; the others are checked against it
+export const sourceLocale: Locale = 'en';
+
+// Copy that is meant to read the same in every language
+export const untranslatedAllowlist = ['Scroll', 'Full-service', 'Concept'];
@@ -1,8 +1,17 @@
+import type { Locale } from './config';
+
 export const en = {
   lang: 'en' as const,
   meta: {
     title: 'itsees | Full-Service Web Development',
     description: 'itsees - Full-service web development company',
+    ogLocale: 'en_GB', // Open Graph language_TERRITORY
+  },
+  // Suggested to first-time visitors whose browser prefers this language
+  language: {
+    suggestion: 'This site is also available in English.',
+    switch: 'Switch to English',
+    dismiss: 'Dismiss',
   },
   hero: {
     scroll: 'Scroll',
@@ -11,59 +20,25 @@ export const en = {
     titleLine1: 'Full-service',
     titleLine2: 'web development',
     subtitle: 'From concept to launch and beyond. We handle everything so you can focus on what matters most: your business.',
-    services: [
-      {
-        title: 'Custom Development',
-        description: 'Tailored solutions built from the ground up to match your unique business needs.',
-      },
-      {
-        title: 'Modern Tech Stack',
-        description: 'Built with cutting-edge technologies for performance, scalability, and maintainability.',
-      },
-      {
-        title: 'Managed Hosting',
-        description: 'Reliable, fast, and secure hosting infrastructure so you never worry about downtime.',
-      },
-      {
-        title: 'Ongoing Partnership',
-        description: 'Long-term support and evolution of your digital presence as your business grows.',
-      },
-    ],
   },
   process: {
     title: 'The process',
-    stages: [
-      {
-        title: 'Concept',
-        description: 'We explore your vision together',
-        details:
-          'Every great project starts with understanding. We dive deep into your goals, audience, and aspirations to craft a clear roadmap for success.',
-      },
-      {
-        title: 'Design',
-        description: 'Ideas take shape, excitement builds',
-        details:
-          'Wireframes become mockups, mockups become prototypes. We iterate with you until every pixel feels right and the experience flows naturally.',
-      },
-      {
-        title: 'Build',
-        description: 'Technical craft meets creative vision',
-        details:
-          'Our engineers bring designs to life with clean, performant code. We use modern frameworks and best practices to ensure your site is fast, accessible, and maintainable.',
-      },
-      {
-        title: 'Host',
-        description: 'Launch with confidence and speed',
-        details:
-          'We deploy to battle-tested infrastructure with global CDN, automatic scaling, and rock-solid security. Your site loads fast from anywhere in the world.',
-      },
-      {
-        title: 'Maintain',
-        description: 'Ongoing support, reliable partnership',
-        details:
-          'Launch is just the beginning. We monitor, optimize, and evolve your digital presence as your business grows. You have a dedicated team in your corner.',
-      },
-    ],
+    minimap: 'Process stages',
+  },
+  work: {
+    title: 'Selected work',
+    viewAll: 'All work',
+    indexTitle: 'Work',
+    indexIntro: 'Websites and web shops we designed, built and keep running, from first sketch to years after launch.',
+    empty: 'New case studies are on their way.',
+    metaTitle: 'Work | itsees',
+    metaDescription: 'Case studies by itsees: websites and web shops from concept to hosting and maintenance.',
+    client: 'Client',
+    year: 'Year',
+    services: 'Services',
+    stages: 'Process',
+    outcome: 'Outcome',
+    back: 'Back to all work',
   },
   footer: {
     headingLine1: 'Ready to build',
@@ -71,7 +46,22 @@ export const en = {
     subtext: "Let's turn your vision into reality. Reach out and let's start the conversation.",
     cta: 'Get in touch',
     copyright: 'All rights reserved.',
+    form: {
+      name: 'Name',
+      email: 'Email',
+      message: 'Message',
+      sending: 'Sending…',
+      success: "Thanks! We'll get back to you soon.",
+      failed: 'Something went wrong. Please try again, or email us at info@itsees.nl.',
+      invalid: 'Please check the form: fill in every field and a valid email address.',
+      rateLimited: 'That was a lot of messages. Please try again in a few minutes.',
+      errors: {
+        required: 'Please fill in this field.',
+        email: 'Please enter a valid email address.',
+        tooLong: 'This is a bit too long.',
+      },
+    },
   },
 };
 
-export type Translations = typeof en;
+export type Translations = Omit<typeof en, 'lang'> & { lang: Locale };
@@ -0,0 +1,71 @@
+import { getAbsoluteLocaleUrl, getRelativeLocaleUrl } from 'astro:i18n';
+import { defaultLocale, sourceLocale, untranslatedAllowlist, type Locale } from './config';
+import { checkTranslations, enforceTranslations } from './check';
+import type { Translations } from './en';
+
+// ==============================================
+// LOCALE REGISTRY
+// Built from the dictionary files in this folder — add de.ts and German
+// gets a route, a toggle entry and a valid `lang`, with no other edits.
+// ==============================================
+
+export { defaultLocale, type Locale };
+
+export interface LocaleEntry {
+  code: Locale;
+  label: string; // toggle text, e.g. "NL"
+  name: string; // the language's own name, e.g. "Nederlands"
+  t: Translations;
+}
+
+// Each dictionary exports itself under its locale code: `export const nl: Translations`
+const dictionaries = import.meta.glob<Record<string, Translations>>('./[a-z][a-z].ts', {
+  eager: true,
+});
+
+export const locales: LocaleEntry[] = Object.entries(dictionaries)
+  .map(([file, mod]) => {
+    // Generated from these same files, so every code is a Locale
+    const code = file.slice(2, -3) as Locale;
+    return {
+      code,
+      label: code.toUpperCase(),
+      name: new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code,
+      t: mod[code],
+    };
+  })
+  // Default locale first, the rest alphabetically
+  .sort((a, b) => Number(b.code === defaultLocale) - Number(a.code === defaultLocale) || a.code.localeCompare(b.code));
+
+// Every page imports this registry, so the check runs once per build.
+// A broken dictionary fails `astro build`; in dev it only warns.
+if (import.meta.env.SSR) {
+  enforceTranslations(
+    'Dictionary',
+    checkTranslations(
+      // `lang` is the locale code itself, never translated copy
+      Object.fromEntries(locales.map(({ code, t: { lang: _lang, ...copy } }) => [code, copy])),
+      { sourceLocale, allowlist: untranslatedAllowlist },
+    ),
+  );
+}
+
+export function isLocale(code: string | undefined): code is Locale {
+  return locales.some((locale) => locale.code === code);
+}
+
+export function getTranslations(code: Locale): Translations {
+  const entry = locales.find((locale) => locale.code === code);
+  if (!entry) throw new Error(`[i18n] Unknown locale "${code}"`);
+  return entry.t;
+}
+
+/** URL of `path` in the given locale, e.g. localeUrl('en') → "/en/" */
+export function localeUrl(code: Locale, path = ''): string {
+  return getRelativeLocaleUrl(code, path);
+}
+
+/** Same, including the site origin — for canonical links and the sitemap */
+export function absoluteLocaleUrl(code: Locale, path = ''): string {
+  return getAbsoluteLocaleUrl(code, path);
+}
@@ -5,6 +5,12 @@ export const nl: Translations = {
   meta: {
     title: "itsees | Full-Service Webdesign",
     description: "itsees - Full-service webdesign en ontwikkeling",
+    ogLocale: "nl_NL",
+  },
+  language: {
+    suggestion: "Deze site is ook in het Nederlands te lezen.",
+    switch: "Naar het Nederlands",
+    dismiss: "Sluiten",
   },
   hero: {
     scroll: "Scroll",
@@ -14,63 +20,26 @@ export const nl: Translations = {
     titleLine2: "webdesign",
     subtitle:
       "Van concept tot lancering en verder... Wij regelen alles zodat jij je kunt focussen op wat echt telt: jouw bedrijf.",
-    services: [
-      {
-        title: "Maatwerk Ontwikkeling",
-        description:
-          "Op maat gemaakte oplossingen die perfect aansluiten op de unieke behoeften van jouw bedrijf.",
-      },
-      {
-        title: "Moderne Technologie",
-        description:
-          "Gebouwd met de nieuwste technologieën voor prestaties, schaalbaarheid, toegankelijkheid en onderhoudbaarheid.",
-      },
-      {
-        title: "Beheerde Hosting",
-        description:
-          "Betrouwbare, snelle en veilige hostinginfrastructuur zodat je nooit zorgen hebt over downtime.",
-      },
-      {
-        title: "Langdurig Partnerschap",
-        description:
-          "Langdurige ondersteuning en doorontwikkeling van jouw digitale aanwezigheid naarmate jouw bedrijf groeit.",
-      },
-    ],
   },
   process: {
     title: "Het proces",
-    stages: [
-      {
-        title: "Concept",
-        description: "Samen verkennen jouw visie",
-        details:
-          "Elk project begint met begrip. We duiken diep in jouw doelen, doelgroepen en ambities om een heldere roadmap te maken.",
-      },
-      {
-        title: "Ontwerp",
-        description: "Ideeën krijgen vorm, enthousiasme groeit",
-        details:
-          "Het concept komt tot leven, we zorgen dat je snel resultaat ziet. We itereren samen totdat elk detail klopt.",
-      },
-      {
-        title: "Bouwen",
-        description: "Technisch vakmanschap ontmoet creatieve visie",
-        details:
-          "Onze engineers brengen ontwerpen tot leven met moderne technologieën en tools. We gebruiken moderne frameworks en best practices zodat jouw site snel, toegankelijk en onderhoudbaar is.",
-      },
-      {
-        title: "Hosting",
-        description: "Lanceer met vertrouwen en snelheid",
-        details:
-          "We deployen naar bewezen infrastructuur met een wereldwijd CDN, automatische schaling en robuuste beveiliging. Jouw site laadt snel, overal ter wereld.",
-      },
-      {
-        title: "Onderhoud",
-        description: "Doorlopende ondersteuning, betrouwbaar partnerschap",
-        details:
-          "De lancering is pas het begin. We monitoren, optimaliseren en ontwikkelen jouw digitale aanwezigheid mee, of je bedrijf nu verandert of hetzelfde blijft. Als jij groeit, groeit jouw site mee.",
-      },
-    ],
+    minimap: "Processtappen",
+  },
+  work: {
+    title: "Geselecteerd werk",
+    viewAll: "Al ons werk",
+    indexTitle: "Werk",
+    indexIntro:
+      "Websites en webshops die we ontwierpen, bouwden en draaiende houden, van eerste schets tot jaren na de lancering.",
+    empty: "Nieuwe cases zijn onderweg.",
+    metaTitle: "Werk | itsees",
+    metaDescription: "Cases van itsees: websites en webshops van concept tot hosting en onderhoud.",
+    client: "Klant",
+    year: "Jaar",
+    services: "Diensten",
+    stages: "Proces",
+    outcome: "Resultaat",
+    back: "Terug naar al ons werk",
   },
   footer: {
     headingLine1: "Klaar om",
@@ -79,5 +48,20 @@ export const nl: Translations = {
       "Laten we jouw visie omzetten naar een website die werkt. Neem contact op en we kunnen snel aan de slag.",
     cta: "Neem contact op",
     copyright: "Alle rechten voorbehouden.",
+    form: {
+      name: "Naam",
+      email: "E-mail",
+      message: "Bericht",
+      sending: "Versturen…",
+      success: "Bedankt! We nemen snel contact met je op.",
+      failed: "Er ging iets mis. Probeer het opnieuw, of mail ons op info@itsees.nl.",
+      invalid: "Controleer het formulier: vul elk veld en een geldig e-mailadres in.",
+      rateLimited: "Dat waren veel berichten. Probeer het over een paar minuten opnieuw.",
+      errors: {
+        required: "Vul dit veld in.",
+        email: "Vul een geldig e-mailadres in.",
+        tooLong: "Dit is iets te lang.",
+      },
+    },
   },
 };
@@ -0,0 +1,51 @@
+import type { Locale } from '../i18n/config';
+
+// ==============================================
+// CONTACT FORM RULES
+// Shared by the footer form (instant feedback) and the /api/contact
+// endpoint (the source of truth). Errors are codes, not copy — each side
+// looks the message up in the visitor's dictionary.
+// ==============================================
+
+export const contactFields = ['name', 'email', 'message'] as const;
+export type ContactField = (typeof contactFields)[number];
+
+export type ContactFieldError = 'required' | 'email' | 'tooLong';
+export type ContactErrors = Partial<Record<ContactField, ContactFieldError>>;
+
+export interface ContactMessage {
+  name: string;
+  email: string;
+  message: string;
+  locale: Locale;
+}
+
+// How a post without JavaScript ended — the endpoint redirects to
+// #contact-<outcome> and the footer shows the matching message
+export type ContactOutcome = 'sent' | 'invalid' | 'limited' | 'error';
+
+// Bots fill every input they find; people never see this one
+export const HONEYPOT_FIELD = 'website';
+
+const MAX_LENGTH: Record<ContactField, number> = {
+  name: 120,
+  email: 254,
+  message: 5000,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Validate raw input. Returns an empty object when everything is fine. */
+export function validateContact(input: Record<ContactField, string>): ContactErrors {
+  const errors: ContactErrors = {};
+
+  contactFields.forEach((field) => {
+    const value = input[field].trim();
+    if (!value) errors[field] = 'required';
+    else if (value.length > MAX_LENGTH[field]) errors[field] = 'tooLong';
+  });
+
+  if (!errors.email && !EMAIL_PATTERN.test(input.email.trim())) errors.email = 'email';
+
+  return errors;
+}
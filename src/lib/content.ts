@@ -0,0 +1,170 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { locales, type Locale } from '../i18n';
+import { sourceLocale, untranslatedAllowlist } from '../i18n/config';
+import { checkTranslations, enforceTranslations } from '../i18n/check';
+import { serviceIcons } from '../data/service-icons';
+
+// ==============================================
+// LOCALIZED COLLECTIONS
+// Sections and pages read the collections through these helpers, which pick
+// the visitor's locale, sort by `order` and check every locale covers the
+// same items before anything renders.
+// ==============================================
+
+export interface Service {
+  key: string;
+  icon: string; // inline SVG markup
+  title: string;
+  description: string;
+}
+
+export interface Stage {
+  id: string; // anchor id, e.g. "build" → #stage-build
+  number: string; // "01", "02", …
+  align: 'left' | 'right';
+  title: string;
+  description: string;
+  entry: CollectionEntry<'stages'>; // render() for the Markdown details
+}
+
+export interface WorkItem {
+  slug: string; // same in every locale, e.g. "studio-noord"
+  title: string;
+  client: string;
+  year: number;
+  summary: string;
+  featured: boolean;
+  cover: ImageMetadata;
+  services: Service[];
+  stages: Stage[];
+  gallery: { image: ImageMetadata; alt: string }[];
+  metrics: { value: string; label: string }[];
+  entry: CollectionEntry<'work'>; // render() for the Markdown write-up
+}
+
+// "nl/managed-hosting" → { locale: "nl", key: "managed-hosting" }
+function splitId(id: string) {
+  const [locale, ...rest] = id.split('/');
+  return { locale, key: rest.join('/') };
+}
+
+let checked: Promise<void> | null = null;
+
+// Runs once per build: every locale needs the same items as the source locale
+function checkContent(): Promise<void> {
+  checked ??= (async () => {
+    const [services, stages, work] = await Promise.all([
+      getCollection('services'),
+      getCollection('stages'),
+      getCollection('work'),
+    ]);
+
+    type Section = Record<string, unknown>;
+    const copy: Record<string, { services: Section; stages: Section; work: Section }> = {};
+    const forLocale = (locale: string) => (copy[locale] ??= { services: {}, stages: {}, work: {} });
+    locales.forEach(({ code }) => forLocale(code));
+
+    services.forEach((entry) => {
+      const { locale, key } = splitId(entry.id);
+      const { title, description } = entry.data;
+      forLocale(locale).services[key] = { title, description };
+    });
+    stages.forEach((entry) => {
+      const { locale, key } = splitId(entry.slug);
+      const { title, description } = entry.data;
+      forLocale(locale).stages[key] = { title, description, details: entry.body.trim() };
+    });
+    // Client names and metric values read the same in every language
+    work.forEach((entry) => {
+      const { locale, key } = splitId(entry.slug);
+      const { title, summary, gallery, metrics } = entry.data;
+      forLocale(locale).work[key] = {
+        title,
+        summary,
+        details: entry.body.trim(),
+        gallery: gallery.map((item) => item.alt),
+        metrics: metrics.map((metric) => metric.label),
+      };
+    });
+
+    enforceTranslations('Content', checkTranslations(copy, { sourceLocale, allowlist: untranslatedAllowlist }));
+  })();
+  return checked;
+}
+
+export async function getServices(locale: Locale): Promise<Service[]> {
+  await checkContent();
+  const entries = await getCollection('services', (entry) => splitId(entry.id).locale === locale);
+
+  return entries
+    .sort((a, b) => a.data.order - b.data.order)
+    .map((entry) => ({
+      key: splitId(entry.id).key,
+      icon: serviceIcons[entry.data.icon],
+      title: entry.data.title,
+      description: entry.data.description,
+    }));
+}
+
+export async function getStages(locale: Locale): Promise<Stage[]> {
+  await checkContent();
+  const entries = await getCollection('stages', (entry) => splitId(entry.slug).locale === locale);
+
+  return entries
+    .sort((a, b) => a.data.order - b.data.order)
+    .map((entry, i) => ({
+      id: splitId(entry.slug).key,
+      number: String(i + 1).padStart(2, '0'),
+      // Cards alternate sides, starting on the left
+      align: i % 2 === 0 ? 'left' : 'right',
+      title: entry.data.title,
+      description: entry.data.description,
+      entry,
+    }));
+}
+
+// A case study whose images were resolved: every published one, and in dev the drafts too
+type RenderableWork = CollectionEntry<'work'> & {
+  data: { cover: ImageMetadata; gallery: { image: ImageMetadata; alt: string }[] };
+};
+
+// Drafts (placeholder or unfinished case studies) only show up in dev
+const isPublished = (entry: CollectionEntry<'work'>): entry is RenderableWork =>
+  import.meta.env.DEV || !entry.data.draft;
+
+export async function getWork(locale: Locale): Promise<WorkItem[]> {
+  await checkContent();
+  const [entries, services, stages] = await Promise.all([
+    getCollection('work', (entry): entry is RenderableWork => splitId(entry.slug).locale === locale && isPublished(entry)),
+    getServices(locale),
+    getStages(locale),
+  ]);
+
+  // Typos in a case study's keys fail loudly instead of dropping a tag
+  const lookup = <T>(items: T[], keyOf: (item: T) => string, keys: string[], kind: string, slug: string) =>
+    keys.map((key) => {
+      const item = items.find((candidate) => keyOf(candidate) === key);
+      if (!item) throw new Error(`[content] work/${slug} references unknown ${kind} "${key}"`);
+      return item;
+    });
+
+  return entries
+    .sort((a, b) => a.data.order - b.data.order)
+    .map((entry) => {
+      const slug = splitId(entry.slug).key;
+      return {
+        slug,
+        title: entry.data.title,
+        client: entry.data.client,
+        year: entry.data.year,
+        summary: entry.data.summary,
+        featured: entry.data.featured,
+        cover: entry.data.cover,
+        services: lookup(services, (service) => service.key, entry.data.services, 'service', slug),
+        stages: lookup(stages, (stage) => stage.id, entry.data.stages, 'stage', slug),
+        gallery: entry.data.gallery,
+        metrics: entry.data.metrics,
+        entry,
+      };
+    });
+}
@@ -0,0 +1,73 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { ContactMessage } from './contact';
+
+// ==============================================
+// MAIL TRANSPORT
+// SMTP settings come from the environment at runtime, so the same build
+// can send through the real mail server or a local catcher such as
+// Mailpit (SMTP_HOST=localhost SMTP_PORT=1025). See .env.example.
+// ==============================================
+
+interface MailConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string;
+}
+
+function readConfig(): MailConfig {
+  const env = process.env;
+  if (!env.SMTP_HOST) throw new Error('[mailer] SMTP_HOST is not set');
+
+  const port = Number(env.SMTP_PORT ?? 587);
+  return {
+    host: env.SMTP_HOST,
+    port,
+    // Implicit TLS on 465, STARTTLS (or plain, for local test servers) elsewhere
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    user: env.SMTP_USER,
+    pass: env.SMTP_PASS,
+    from: env.CONTACT_FROM ?? 'itsees website <no-reply@itsees.nl>',
+    to: env.CONTACT_TO ?? 'info@itsees.nl',
+  };
+}
+
+let transport: { config: MailConfig; transporter: Transporter } | null = null;
+
+function getTransport() {
+  if (!transport) {
+    const config = readConfig();
+    transport = {
+      config,
+      transporter: nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      }),
+    };
+  }
+  return transport;
+}
+
+/** Deliver a validated contact message to the team inbox */
+export async function sendContactMail(message: ContactMessage): Promise<void> {
+  const { config, transporter } = getTransport();
+
+  await transporter.sendMail({
+    from: config.from,
+    to: config.to,
+    replyTo: { name: message.name, address: message.email },
+    subject: `Contact form: ${message.name}`,
+    text: [
+      `Name: ${message.name}`,
+      `Email: ${message.email}`,
+      `Language: ${message.locale}`,
+      '',
+      message.message,
+    ].join('\n'),
+  });
+}
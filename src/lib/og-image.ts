@@ -0,0 +1,139 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import opentype from 'opentype.js';
+import sharp from 'sharp';
+import { palette } from '../scripts/dots-palette';
+import { dotsScene } from '../scripts/dots-scene';
+import { computeDotFrames, createSceneState } from '../scripts/dots-simulation';
+import { ogImageSize } from './seo';
+
+// ==============================================
+// SOCIAL CARDS
+// The preview image for shared links: the hero's wordmark with the dots
+// resting in its eyes, colored the way the scene colors them as the hero
+// scrolls away, and the page's headline underneath. Text is drawn as
+// outlines from the bundled Geist files, so rendering needs no network
+// and no system fonts.
+// ==============================================
+
+// Light theme tokens from global.css
+const background = '#eae5df';
+const text = palette.dark;
+
+// The hero logo at its desktop max width (max-w-4xl), in its 400×100 viewBox
+const logo = { width: 896, height: 224 };
+const logoRect = {
+  left: (ogImageSize.width - logo.width) / 2,
+  top: 136,
+  width: logo.width,
+  height: logo.height,
+};
+
+const title = { size: 52, lineHeight: 64, maxWidth: 1000, maxLines: 2, top: 440 };
+
+// Colors the scene tweens the eyes to when they leave the logo (color-dot1/2)
+const dotColors: Record<string, string> = { dot1: palette.green, dot2: palette.orange };
+
+// geist only exports its font loaders — the TTFs sit next to them
+const fontDir = join(dirname(createRequire(import.meta.url).resolve('geist/font')), 'fonts/geist-sans');
+
+let fonts: { bold: opentype.Font; semiBold: opentype.Font } | null = null;
+
+function loadFonts() {
+  const load = (file: string) => {
+    const buffer = readFileSync(join(fontDir, file));
+    return opentype.parse(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+  };
+  fonts ??= { bold: load('Geist-Bold.ttf'), semiBold: load('Geist-SemiBold.ttf') };
+  return fonts;
+}
+
+// SVG path data, rounded to 0.01px. Written out here because opentype's
+// toPathData() turns some of Geist's curves into NaN coordinates.
+function pathData(path: opentype.Path): string {
+  const n = (value: number) => String(Math.round(value * 100) / 100);
+  return path.commands
+    .map((cmd) => {
+      switch (cmd.type) {
+        case 'M':
+        case 'L':
+          return `${cmd.type}${n(cmd.x)} ${n(cmd.y)}`;
+        case 'Q':
+          return `Q${n(cmd.x1)} ${n(cmd.y1)} ${n(cmd.x)} ${n(cmd.y)}`;
+        case 'C':
+          return `C${n(cmd.x1)} ${n(cmd.y1)} ${n(cmd.x2)} ${n(cmd.y2)} ${n(cmd.x)} ${n(cmd.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join('');
+}
+
+// Same text as HeroSection's #logo-svg: Geist Bold 72px, centered, baseline at 70
+function wordmarkPath(font: opentype.Font): string {
+  const x = 200 - font.getAdvanceWidth('itsees', 72) / 2;
+  return pathData(font.getPath('itsees', x, 70, 72));
+}
+
+// Break on spaces into at most maxLines lines; an overlong last line ends in "…"
+function wrapTitle(font: opentype.Font, value: string): string[] {
+  const fits = (line: string) => font.getAdvanceWidth(line, title.size) <= title.maxWidth;
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (fits(candidate) || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= title.maxLines) return lines;
+  let last = lines.slice(title.maxLines - 1).join(' ');
+  while (last.length > 1 && !fits(`${last}…`)) last = last.slice(0, -1).trimEnd();
+  return [...lines.slice(0, title.maxLines - 1), `${last}…`];
+}
+
+// The scene's resting pose (progress 0) with the card as the viewport
+function eyes(): string {
+  const viewport = ogImageSize;
+  const state = createSceneState({ scene: dotsScene, layout: {}, colors: palette }, viewport);
+  return computeDotFrames(state, viewport, logoRect)
+    .map((frame) => {
+      const color = dotColors[frame.id] ?? frame.color;
+      return `<ellipse cx="${frame.x}" cy="${frame.y}" rx="${frame.width / 2}" ry="${frame.height / 2}" fill="${color}" opacity="${frame.opacity}"/>`;
+    })
+    .join('');
+}
+
+/** The social card for a page, as a 1200×630 PNG */
+export async function renderOgImage(headline: string): Promise<ArrayBuffer> {
+  const { bold, semiBold } = loadFonts();
+  const scale = logo.width / 400;
+
+  const lines = wrapTitle(semiBold, headline)
+    .map((line, i) => {
+      const x = (ogImageSize.width - semiBold.getAdvanceWidth(line, title.size)) / 2;
+      return pathData(semiBold.getPath(line, x, title.top + i * title.lineHeight, title.size));
+    })
+    .map((d) => `<path d="${d}" fill="${text}"/>`)
+    .join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${ogImageSize.width}" height="${ogImageSize.height}" viewBox="0 0 ${ogImageSize.width} ${ogImageSize.height}">
+  <rect width="100%" height="100%" fill="${background}"/>
+  <path transform="translate(${logoRect.left} ${logoRect.top}) scale(${scale})" d="${wordmarkPath(bold)}" fill="${text}"/>
+  ${eyes()}
+  ${lines}
+</svg>`;
+
+  // A NaN anywhere drops the rest of its path — fail the build, not the card
+  if (svg.includes('NaN')) throw new Error(`[og-image] Broken card for "${headline}": NaN in the SVG`);
+
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  return Uint8Array.from(png).buffer;
+}
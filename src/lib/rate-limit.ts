@@ -0,0 +1,60 @@
+// ==============================================
+// RATE LIMITING
+// In-memory sliding window per client key. Good enough for a single
+// Node process; the counts reset when the server restarts.
+//
+// Deployment: the key is the socket address unless TRUSTED_PROXY_HOPS
+// says how many reverse proxies sit in front of the server. Behind a
+// proxy without it, every visitor shares the proxy's one bucket.
+// ==============================================
+
+export interface RateLimiter {
+  // true if the request is allowed (and counts it), false once over the limit
+  attempt: (key: string, now?: number) => boolean;
+}
+
+export function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter {
+  const { limit, windowMs } = options;
+  const hits: Map<string, number[]> = new Map();
+
+  return {
+    attempt(key, now = Date.now()) {
+      const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs);
+
+      // Drop stale keys so the map doesn't grow with every visitor
+      hits.forEach((times, other) => {
+        if (other !== key && times.every((time) => now - time >= windowMs)) hits.delete(other);
+      });
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return false;
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return true;
+    },
+  };
+}
+
+/**
+ * The client address to count a request against. With TRUSTED_PROXY_HOPS
+ * set (1 for a single nginx or load balancer), it's read from
+ * X-Forwarded-For, that many entries from the right: those were added by
+ * our own proxies, anything further left came from the client and can be
+ * made up. Unset or 0, the server is taken to face visitors directly.
+ */
+export function clientKey(request: Request, socketAddress: string, env = process.env): string {
+  const hops = Number(env.TRUSTED_PROXY_HOPS ?? 0);
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new Error('[rate-limit] TRUSTED_PROXY_HOPS must be a whole number');
+  }
+  if (hops === 0) return socketAddress;
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  // Fewer entries than proxies: the request didn't come through all of them
+  return forwarded[forwarded.length - hops] ?? socketAddress;
+}
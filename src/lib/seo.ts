@@ -0,0 +1,102 @@
+import { absoluteLocaleUrl, defaultLocale, getTranslations, locales, type Locale } from '../i18n';
+import { getServices, getWork } from './content';
+
+// ==============================================
+// SEARCH & SHARING
+// What Layout.astro puts in <head> beyond the title, and the page list the
+// sitemap is built from. Every page exists in every locale under the same
+// path, so alternates are just that path in each locale.
+// ==============================================
+
+export const siteName = 'itsees';
+
+export interface Alternate {
+  hreflang: string; // locale code, or "x-default"
+  href: string;
+}
+
+/** The page in every locale, plus x-default pointing at the default locale */
+export function alternates(path = ''): Alternate[] {
+  return [
+    ...locales.map(({ code }) => ({ hreflang: code, href: absoluteLocaleUrl(code, path) })),
+    { hreflang: 'x-default', href: absoluteLocaleUrl(defaultLocale, path) },
+  ];
+}
+
+export interface SitePage {
+  path: string; // without locale prefix
+  headline: string; // what the social card says
+}
+
+/** Every prerendered page in a locale */
+export async function sitePages(locale: Locale): Promise<SitePage[]> {
+  const t = getTranslations(locale);
+  const work = await getWork(locale);
+  return [
+    { path: '', headline: `${t.about.titleLine1} ${t.about.titleLine2}` },
+    { path: 'work', headline: t.work.indexTitle },
+    ...work.map(({ slug, title }) => ({ path: `work/${slug}`, headline: title })),
+  ];
+}
+
+/** Paths (without locale prefix) of every prerendered page */
+export async function sitePaths(): Promise<string[]> {
+  return (await sitePages(defaultLocale)).map(({ path }) => path);
+}
+
+export const ogImageSize = { width: 1200, height: 630 };
+
+/** Where the build puts a page's social card (src/pages/og/[...card].png.ts) */
+export function ogImagePath(locale: Locale, path = ''): string {
+  return `/og/${locale}/${path || 'index'}.png`;
+}
+
+/**
+ * Schema.org graph for the company: the organization itself and the
+ * services it offers, in the page's language.
+ */
+export async function organizationJsonLd(locale: Locale, site: URL): Promise<Record<string, unknown>> {
+  const t = getTranslations(locale);
+  const services = await getServices(locale);
+  const home = absoluteLocaleUrl(locale);
+  const organization = new URL('#organization', site).href;
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      {
+        '@type': 'Organization',
+        '@id': organization,
+        name: siteName,
+        url: home,
+        logo: new URL('/favicon.svg', site).href,
+        description: t.meta.description,
+      },
+      {
+        '@type': 'ProfessionalService',
+        '@id': new URL('#service', site).href,
+        name: siteName,
+        url: home,
+        description: t.about.subtitle,
+        parentOrganization: { '@id': organization },
+        hasOfferCatalog: {
+          '@type': 'OfferCatalog',
+          name: `${t.about.titleLine1} ${t.about.titleLine2}`,
+          itemListElement: services.map((service) => ({
+            '@type': 'Offer',
+            itemOffered: {
+              '@type': 'Service',
+              name: service.title,
+              description: service.description,
+            },
+          })),
+        },
+      },
+    ],
+  };
+}
+
+// Safe inside <script type="application/ld+json">: no "</script>" can slip through
+export function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,63 @@
+import type { APIRoute } from 'astro';
+import { contactFields, HONEYPOT_FIELD, validateContact, type ContactField, type ContactOutcome } from '../../lib/contact';
+import { sendContactMail } from '../../lib/mailer';
+import { clientKey, createRateLimiter } from '../../lib/rate-limit';
+import { defaultLocale, isLocale, localeUrl, type Locale } from '../../i18n';
+
+// The one on-demand route — everything else is prerendered
+export const prerender = false;
+
+// Five messages per visitor per ten minutes
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+// Anything else (a failed delivery) is an error
+const outcomes: Record<number, ContactOutcome> = { 200: 'sent', 400: 'invalid', 429: 'limited' };
+
+export const POST: APIRoute = async ({ request, clientAddress, redirect }) => {
+  // The footer script asks for JSON; a plain form post (no JS) goes back to
+  // the page, to the footer message for how it went
+  const wantsJson = request.headers.get('accept')?.includes('application/json') ?? false;
+  const respond = (status: number, body: Record<string, unknown>, locale: Locale = defaultLocale) =>
+    wantsJson
+      ? new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+      : redirect(`${localeUrl(locale)}#contact-${outcomes[status] ?? 'error'}`, 303);
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return respond(400, { ok: false, error: 'invalid' });
+  }
+
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === 'string' ? value : '';
+  };
+  const requested = field('locale');
+  const locale = isLocale(requested) ? requested : defaultLocale;
+
+  // Pretend it worked so bots don't learn to skip the field
+  if (field(HONEYPOT_FIELD)) return respond(200, { ok: true }, locale);
+
+  if (!limiter.attempt(clientKey(request, clientAddress))) {
+    return respond(429, { ok: false, error: 'rateLimited' }, locale);
+  }
+
+  const input = Object.fromEntries(contactFields.map((name) => [name, field(name)])) as Record<ContactField, string>;
+  const errors = validateContact(input);
+  if (Object.keys(errors).length) return respond(400, { ok: false, errors }, locale);
+
+  try {
+    await sendContactMail({
+      name: input.name.trim(),
+      email: input.email.trim(),
+      message: input.message.trim(),
+      locale,
+    });
+  } catch (error) {
+    console.error('[contact] Could not send mail', error);
+    return respond(502, { ok: false, error: 'delivery' }, locale);
+  }
+
+  return respond(200, { ok: true }, locale);
+};
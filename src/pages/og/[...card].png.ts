@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { locales } from '../../i18n';
+import { ogImagePath, sitePages } from '../../lib/seo';
+import { renderOgImage } from '../../lib/og-image';
+
+// One social card per page per locale, rendered at build time: /og/<locale>/<path>.png
+export async function getStaticPaths() {
+  const cards = await Promise.all(
+    locales.map(async ({ code }) =>
+      (await sitePages(code)).map(({ path, headline }) => ({
+        params: { card: ogImagePath(code, path).slice('/og/'.length, -'.png'.length) },
+        props: { headline },
+      })),
+    ),
+  );
+  return cards.flat();
+}
+
+export const GET: APIRoute = async ({ props }) => {
+  const png = await renderOgImage((props as { headline: string }).headline);
+  return new Response(png, { headers: { 'Content-Type': 'image/png' } });
+};
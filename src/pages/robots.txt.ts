@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro';
+
+// Everything but the API is open to crawlers; the sitemap lists every locale
+export const GET: APIRoute = ({ site }) => {
+  const lines = [
+    'User-agent: *',
+    'Allow: /',
+    'Disallow: /api/',
+    '',
+    `Sitemap: ${new URL('/sitemap.xml', site)}`,
+  ];
+  return new Response(`${lines.join('\n')}\n`, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import { absoluteLocaleUrl, locales } from '../i18n';
+import { alternates, sitePaths } from '../lib/seo';
+
+// One <url> per page per locale, each listing all its translations
+export const GET: APIRoute = async () => {
+  const urls = (await sitePaths()).flatMap((path) => {
+    const links = alternates(path)
+      .map(({ hreflang, href }) => `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${href}"/>`)
+      .join('\n');
+    return locales.map(({ code }) => `  <url>\n    <loc>${absoluteLocaleUrl(code, path)}</loc>\n${links}\n  </url>`);
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml; charset=utf-8' } });
+};
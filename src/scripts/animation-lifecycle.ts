@@ -0,0 +1,78 @@
+import gsap from "gsap";
+
+// ==============================================
+// ANIMATION LIFECYCLE
+// Every section's animations mount through here: on each page load (the
+// first one and after every view-transition swap) and unmount before the
+// next swap. Each mount runs inside its own gsap.context, so unmounting
+// reverts exactly the tweens and ScrollTriggers that section created —
+// never another section's.
+//
+// Hot reload: a section's script only has to self-accept with
+// `import.meta.hot?.accept()` (Vite looks for that call in the script
+// itself). When a hot update runs it again, its new mountAnimation()
+// replaces the old mount for the same root, so nothing mounts twice.
+// ==============================================
+
+export type Disposer = () => void;
+
+// Kept across hot updates of this module too
+const lifecycle: {
+  mounts: Map<string, Disposer>; // current mount per root
+  // Between a swap and the next page load, sections of the incoming page
+  // are still waiting for their astro:page-load
+  pageLoaded: boolean;
+} = import.meta.hot?.data.lifecycle ?? { mounts: new Map(), pageLoaded: false };
+if (import.meta.hot) import.meta.hot.data.lifecycle = lifecycle;
+
+const { mounts } = lifecycle;
+document.addEventListener("astro:page-load", () => (lifecycle.pageLoaded = true));
+document.addEventListener("astro:before-swap", () => (lifecycle.pageLoaded = false));
+
+/**
+ * Run `setup` on every page that has an element matching `root`, and undo
+ * it before the page goes away. `setup` may return a disposer for what
+ * GSAP doesn't own (listeners, timers, motionContext).
+ *
+ * Returns a disposer that unmounts and stops listening.
+ */
+export function mountAnimation(root: string, setup: () => void | Disposer): Disposer {
+  mounts.get(root)?.();
+
+  let unmount: Disposer | null = null;
+
+  const teardown = () => {
+    unmount?.();
+    unmount = null;
+  };
+
+  const mount = () => {
+    teardown();
+    if (!document.querySelector(root)) return;
+
+    let cleanup: Disposer | null = null;
+    const context = gsap.context(() => {
+      const result = setup();
+      if (typeof result === "function") cleanup = result;
+    });
+    unmount = () => {
+      cleanup?.();
+      context.revert();
+    };
+  };
+
+  document.addEventListener("astro:page-load", mount);
+  document.addEventListener("astro:before-swap", teardown);
+
+  // A hot update re-runs the section's script on a page that already loaded
+  if (lifecycle.pageLoaded) mount();
+
+  const dispose = () => {
+    document.removeEventListener("astro:page-load", mount);
+    document.removeEventListener("astro:before-swap", teardown);
+    teardown();
+    if (mounts.get(root) === dispose) mounts.delete(root);
+  };
+  mounts.set(root, dispose);
+  return dispose;
+}
@@ -1,165 +1,156 @@
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
+import {
+  compileScene,
+  createSceneContext,
+  measureSceneLayout,
+  resolveAnchor,
+  resolveEntry,
+  resolveMotifs,
+  resolvePoses,
+  resolveScene,
+  type ResolvedKeyframe,
+  type ResolvedMotif,
+  type SceneContext,
+  type SceneDescription,
+  type SceneTarget,
+} from "./dots-choreography";
+import { dotsScene } from "./dots-scene";
+import { onMotionPreferenceChange, prefersReducedMotion } from "./motion-preference";
+import { createPointerLayer } from "./dots-pointer";
+import { createEyeTracker } from "./dots-eyes";
+import { createFormationState } from "./dots-formations";
+import { createDotSet, createMotifHelpers, resolveStateTarget } from "./dots-motifs";
+import { palette, type PaletteColor } from "./dots-palette";
+import {
+  createDotRenderer,
+  type DotRenderer,
+  type DotRendererKind,
+} from "./dots-renderer";
+import {
+  advanceClock,
+  applyEntry,
+  blendDotFrames,
+  computeDotFrames,
+  createDotState,
+  createEllipseOrbitState,
+  createGlobalState,
+  type DotFrame,
+  type DotState,
+  type LogoRect,
+  type SimulationState,
+} from "./dots-simulation";
 
 gsap.registerPlugin(ScrollTrigger);
 
-// ==============================================
-// TYPES
-// ==============================================
-
-interface DotState {
-  id: string;
-  element: SVGSVGElement;
-  circleElement: SVGCircleElement | null;
-
-  // Base position (logo-relative percentages)
-  baseXPercent: number;
-  baseYPercent: number;
-
-  // Animation offsets
-  offsetX: number;
-  offsetY: number;
-
-  // Size and shape
-  baseSize: number;
-  scale: number;
-  scaleX: number; // 1 = normal, >1 = stretched horizontally
-  scaleY: number; // 1 = normal, >1 = stretched vertically
-
-  // Orbit (around viewport center or parent)
-  orbitAngle: number;
-  orbitRadius: number;
-
-  // Appearance
-  color: string;
-  opacity: number;
-
-  // Hierarchy (for satellites)
-  parentId: string | null;
-  satelliteOrbitRadius: number; // orbit distance from parent
-  satelliteOrbitSpeed: number; // degrees per render (for continuous orbit)
-}
-
-// Elliptical orbit state (for depth effect)
-interface EllipseOrbitState {
-  active: boolean;
-  centerX: number; // viewport-relative
-  centerY: number;
-  radiusX: number; // horizontal radius (wider)
-  radiusY: number; // vertical radius (shorter for perspective)
-  depthScale: number; // how much to scale down when "behind" (0-1, 0.5 = 50% smaller at back)
-  angle: number; // current rotation angle in degrees
-}
-
 // ==============================================
 // COLORS
 // ==============================================
 
-export const colors = {
-  dark: "#212121",
-  green: "#a862fe",
-  orange: "#f86e2f",
-  greenLight: "#c49afe",
-  orangeLight: "#fa9870",
+export const colors = { ...palette };
+
+// Theme tokens (global.css) the palette follows; light variants stay fixed
+const paletteTokens: Partial<Record<PaletteColor, string>> = {
+  dark: "--color-text", // dots blend into the logo text at rest
+  green: "--color-accent",
+  orange: "--color-accent-warm",
 };
 
+// Re-read the palette from the current theme's CSS tokens
+function resolvePalette() {
+  const style = getComputedStyle(document.documentElement);
+  (Object.keys(paletteTokens) as PaletteColor[]).forEach((key) => {
+    const value = style.getPropertyValue(paletteTokens[key]!).trim();
+    if (value) colors[key] = value;
+  });
+}
+
 // ==============================================
 // STATE MANAGEMENT
 // ==============================================
 
-const dots: Map<string, DotState> = new Map();
 let resizeHandler: (() => void) | null = null;
-let container: HTMLElement | null = null;
+let resizeTimer: number | undefined;
+let themeHandler: (() => void) | null = null;
 let logo: HTMLElement | null = null;
+let renderer: DotRenderer | null = null;
+let disposeMotion: (() => void) | null = null;
+let stopMotionListener: (() => void) | null = null;
+let disposePointer: (() => void) | null = null;
+let disposeEyes: (() => void) | null = null;
+let disposeDebug: (() => void) | null = null;
+let debugGeneration = 0; // guards the async debug import against a cleanup in between
+let rebuildListener: (() => void) | null = null; // the debug overlay, re-applying its seek
+
+// Choreography of the current page, and the viewport its responsive values were resolved for
+let scene: SceneDescription = dotsScene;
+let sceneContext: SceneContext | null = null;
+
+const RESIZE_DEBOUNCE = 150; // ms
+
+// Current master timeline, and the progress where the eye-tracking offsets reach zero
+let masterTimeline: gsap.core.Timeline | null = null;
+let masterKeyframes: ResolvedKeyframe[] = [];
+let masterMotifs: ResolvedMotif[] = [];
+let eyesFadeOut = 0;
+
+// Last drawn frame per dot (read by the pointer layer)
+const lastFrames: Map<string, DotFrame> = new Map();
 
 // Shared animation state (for properties that affect all dots together)
-const globalState = {
-  orbitAngle: 0,
-  orbitRadius: 0,
-  ellipseBlend: 0, // 0 = global orbit, 1 = ellipse orbit — GSAP tweens this directly
-};
+// GSAP tweens these directly — reliable scrub reversal
+const globalState = createGlobalState();
 
 // Elliptical orbit state (for "concept" phase depth effect)
-// Starts at radius 0 - will expand outward as it takes over from global orbit
-const ellipseOrbit: EllipseOrbitState = {
-  active: false,
-  centerX: 0,
-  centerY: 0,
-  radiusX: 0, // Starts at 0, expands during transition
-  radiusY: 0, // Starts at 0, expands during transition
-  depthScale: 0.4,
-  angle: 0,
-};
+const ellipseOrbit = createEllipseOrbitState();
+
+// Formation weights layered over the ellipse (dots-formations.ts)
+const formation = createFormationState();
 
 // ==============================================
-// DOT CREATION & MANAGEMENT
+// PAGE HANDOFF
+// With view transitions the container survives navigation. The outgoing
+// page leaves its dots (and the renderer still showing them) behind; the
+// incoming page glides from there into its own entry pose.
 // ==============================================
 
-function createDotElement(id: string): SVGSVGElement {
-  const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-  svg.setAttribute("id", id);
-  svg.setAttribute("class", "absolute");
-  svg.setAttribute("width", "20");
-  svg.setAttribute("height", "20");
-  svg.setAttribute("viewBox", "0 0 20 20");
-
-  const circle = document.createElementNS(
-    "http://www.w3.org/2000/svg",
-    "circle",
-  );
-  circle.setAttribute("cx", "10");
-  circle.setAttribute("cy", "10");
-  circle.setAttribute("r", "10");
-  circle.setAttribute("fill", colors.dark);
-
-  svg.appendChild(circle);
-  return svg;
-}
+const ARRIVAL_DURATION = 0.9; // s
 
-function createDot(
-  id: string,
-  options: Partial<DotState> & { element?: SVGSVGElement } = {},
-): DotState {
-  let element = options.element;
+let handoff: {
+  container: HTMLElement;
+  renderer: DotRenderer;
+  state: SimulationState;
+  logoRect: LogoRect | null;
+} | null = null;
+let rendererContainer: HTMLElement | null = null;
 
-  // Create new element if not provided
-  if (!element) {
-    element = createDotElement(id);
-    container?.appendChild(element);
-  }
+// Frames the dots left the previous page with, faded out as `progress` → 1
+let arrival: { from: DotFrame[]; progress: number } | null = null;
+let arrivalTween: gsap.core.Tween | null = null;
 
-  const dot: DotState = {
-    id,
-    element,
-    circleElement: element.querySelector("circle"),
-    baseXPercent: options.baseXPercent ?? 0,
-    baseYPercent: options.baseYPercent ?? 0,
-    offsetX: options.offsetX ?? 0,
-    offsetY: options.offsetY ?? 0,
-    baseSize: options.baseSize ?? 24,
-    scale: options.scale ?? 1,
-    scaleX: options.scaleX ?? 1,
-    scaleY: options.scaleY ?? 1,
-    orbitAngle: options.orbitAngle ?? 0,
-    orbitRadius: options.orbitRadius ?? 0,
-    color: options.color ?? colors.dark,
-    opacity: options.opacity ?? 1,
-    parentId: options.parentId ?? null,
-    satelliteOrbitRadius: options.satelliteOrbitRadius ?? 0,
-    satelliteOrbitSpeed: options.satelliteOrbitSpeed ?? 0,
+// Deep copy of everything computeDotFrames() reads
+function snapshotState(): SimulationState {
+  return {
+    dots: [...dots.values()].map((dot) => ({ ...dot })),
+    globalState: { ...globalState },
+    ellipseOrbit: { ...ellipseOrbit },
+    formation: { ...formation },
   };
-
-  dots.set(id, dot);
-  return dot;
 }
 
-function removeDot(id: string): void {
-  const dot = dots.get(id);
-  if (dot) {
-    dot.element.remove();
-    dots.delete(id);
-  }
-}
+// ==============================================
+// DOTS
+// The set of dots and the motif helpers live in dots-motifs.ts, shared
+// with simulateDots(); the page adds its palette and render()
+// ==============================================
+
+// The renderer creates the visual for a new id on the next frame, and
+// drops the visual of one that's gone
+const dotSet = createDotSet((id, options) => createDotState(id, { color: colors.dark, ...options }));
+const dots = dotSet.dots;
+const { create: createDot, remove: removeDot, setLifetime: setDotLifetime } = dotSet;
+
+const { splitDot, createSatellite, mergeDots, compileMotifs } = createMotifHelpers(dotSet, render);
 
 function getDot(id: string): DotState | undefined {
   return dots.get(id);
@@ -167,466 +158,314 @@ function getDot(id: string): DotState | undefined {
 
 // ==============================================
 // RENDER
+// Tweens, springs and the eye tracker only ask for a render; the dots are
+// drawn once per frame, on the GSAP ticker after everything that asked.
 // ==============================================
 
-function render() {
-  const viewportCenterX = window.innerWidth / 2;
-  const viewportCenterY = window.innerHeight / 2;
-
-  // Get logo position
-  let logoX = viewportCenterX;
-  let logoY = viewportCenterY;
-  let logoWidth = 400;
-  let logoHeight = 100;
-
-  if (logo) {
-    const logoRect = logo.getBoundingClientRect();
-    logoX = logoRect.left + logoRect.width / 2;
-    logoY = logoRect.top + logoRect.height / 2;
-    logoWidth = logoRect.width;
-    logoHeight = logoRect.height;
-  }
+let renderQueued = false;
 
-  // Update ellipse orbit center to viewport center
-  ellipseOrbit.centerX = viewportCenterX;
-  ellipseOrbit.centerY = viewportCenterY;
-
-  // For ellipse orbit: calculate positions and depth for each dot
-  const ellipsePositions: Map<
-    string,
-    { x: number; y: number; depthFactor: number }
-  > = new Map();
-
-  // Calculate ellipse positions when blend > 0
-  if (globalState.ellipseBlend > 0) {
-    const dot1 = dots.get("dot1");
-    const dot2 = dots.get("dot2");
-
-    if (dot1 && dot2) {
-      const angle1Rad = (ellipseOrbit.angle * Math.PI) / 180;
-
-      // Phase drift: dots aren't locked at exactly 180° apart
-      // This creates organic "chasing" behavior - sometimes closer, sometimes farther
-      // Oscillates ±25° around the 180° base offset, changing slowly
-      const phaseDrift =
-        (Math.sin((ellipseOrbit.angle * 0.05 * Math.PI) / 180) * 25 * Math.PI) /
-        180;
-      const angle2Rad = angle1Rad + Math.PI + phaseDrift;
-
-      // Dot2 also has slightly different orbit size for variety
-      const radiusVariation =
-        1 + Math.sin((ellipseOrbit.angle * 0.03 * Math.PI) / 180) * 0.15;
-
-      const x1 =
-        ellipseOrbit.centerX + Math.cos(angle1Rad) * ellipseOrbit.radiusX;
-      const y1 =
-        ellipseOrbit.centerY + Math.sin(angle1Rad) * ellipseOrbit.radiusY;
-      const x2 =
-        ellipseOrbit.centerX +
-        Math.cos(angle2Rad) * ellipseOrbit.radiusX * radiusVariation;
-      const y2 =
-        ellipseOrbit.centerY +
-        Math.sin(angle2Rad) * ellipseOrbit.radiusY * radiusVariation;
-
-      // Depth factor for 3D effect
-      const depth1 =
-        1 + Math.sin(angle1Rad) * ellipseOrbit.depthScale * globalState.ellipseBlend;
-      const depth2 =
-        1 + Math.sin(angle2Rad) * ellipseOrbit.depthScale * globalState.ellipseBlend;
-
-      ellipsePositions.set("dot1", { x: x1, y: y1, depthFactor: depth1 });
-      ellipsePositions.set("dot2", { x: x2, y: y2, depthFactor: depth2 });
-
-      // Z-index when in ellipse mode
-      if (globalState.ellipseBlend > 0.5) {
-        dot1.element.style.zIndex = Math.sin(angle1Rad) > 0 ? "2" : "1";
-        dot2.element.style.zIndex = Math.sin(angle2Rad) > 0 ? "2" : "1";
-      }
-    }
-  }
-
-  dots.forEach((dot) => {
-    let x: number;
-    let y: number;
-    let depthMultiplier = 1;
-
-    if (globalState.ellipseBlend > 0 && ellipsePositions.has(dot.id)) {
-      // Blend between global orbit and ellipse orbit
-      const globalPos = getRenderedPosition(
-        dot,
-        logoX,
-        logoY,
-        logoWidth,
-        logoHeight,
-        viewportCenterX,
-        viewportCenterY,
-      );
-      const ellipsePos = ellipsePositions.get(dot.id)!;
-
-      // Smooth blend
-      x = globalPos.x + (ellipsePos.x - globalPos.x) * globalState.ellipseBlend;
-      y = globalPos.y + (ellipsePos.y - globalPos.y) * globalState.ellipseBlend;
-      depthMultiplier = 1 + (ellipsePos.depthFactor - 1) * globalState.ellipseBlend;
-    } else if (dot.parentId) {
-      // Satellite: orbit around parent dot
-      const parent = dots.get(dot.parentId);
-      if (parent) {
-        const parentPos = getRenderedPosition(
-          parent,
-          logoX,
-          logoY,
-          logoWidth,
-          logoHeight,
-          viewportCenterX,
-          viewportCenterY,
-        );
-        const angle = (dot.orbitAngle * Math.PI) / 180;
-        x = parentPos.x + Math.cos(angle) * dot.satelliteOrbitRadius;
-        y = parentPos.y + Math.sin(angle) * dot.satelliteOrbitRadius;
-
-        // Continuous orbit animation
-        if (dot.satelliteOrbitSpeed !== 0) {
-          dot.orbitAngle += dot.satelliteOrbitSpeed;
-        }
-      } else {
-        x = viewportCenterX;
-        y = viewportCenterY;
-      }
-    } else {
-      // Main dot: blend between logo position and orbit position
-      const pos = getRenderedPosition(
-        dot,
-        logoX,
-        logoY,
-        logoWidth,
-        logoHeight,
-        viewportCenterX,
-        viewportCenterY,
-      );
-      x = pos.x;
-      y = pos.y;
-    }
-
-    // Calculate final size with independent X/Y scaling + depth
-    const baseSize = dot.baseSize * dot.scale * depthMultiplier;
-    const width = baseSize * dot.scaleX;
-    const height = baseSize * dot.scaleY;
-
-    // Apply transform (center the dot at position)
-    dot.element.style.transform = `translate(${x - width / 2}px, ${y - height / 2}px)`;
-    dot.element.setAttribute("width", `${width}`);
-    dot.element.setAttribute("height", `${height}`);
-    dot.element.style.opacity = `${dot.opacity}`;
-
-    // Apply color
-    if (dot.circleElement) {
-      dot.circleElement.setAttribute("fill", dot.color);
-    }
-  });
-}
+// Measured logo position, and the inline transforms it was measured under
+let logoRect: LogoRect | null = null;
+let logoTransforms = "";
 
-function getRenderedPosition(
-  dot: DotState,
-  logoX: number,
-  logoY: number,
-  logoWidth: number,
-  logoHeight: number,
-  viewportCenterX: number,
-  viewportCenterY: number,
-): { x: number; y: number } {
-  // Logo-relative position
-  const logoRelX = logoX + logoWidth * dot.baseXPercent + dot.offsetX;
-  const logoRelY = logoY + logoHeight * dot.baseYPercent + dot.offsetY;
-
-  // Phase drift for global orbit - dots aren't perfectly opposite
-  // dot1 (orbitAngle=180) gets a subtle drift based on current angle
-  const driftAmount =
-    dot.orbitAngle > 0
-      ? Math.sin((globalState.orbitAngle * 0.08 * Math.PI) / 180) * 20
-      : 0;
-
-  // Global orbit position (around viewport center)
-  const angle =
-    ((globalState.orbitAngle + dot.orbitAngle + driftAmount) * Math.PI) / 180;
-  const orbitX = viewportCenterX + Math.cos(angle) * globalState.orbitRadius;
-  const orbitY = viewportCenterY + Math.sin(angle) * globalState.orbitRadius;
-
-  // Blend based on orbit radius
-  const maxOrbitForBlend = 100;
-  const blendFactor = Math.min(globalState.orbitRadius / maxOrbitForBlend, 1);
+// Dev only: how often a render is asked for vs drawn, and what drawing costs
+const renderStats = { requests: 0, draws: 0, drawTime: 0 };
 
-  return {
-    x: logoRelX + (orbitX - logoRelX) * blendFactor,
-    y: logoRelY + (orbitY - logoRelY) * blendFactor,
-  };
+function render() {
+  if (import.meta.env.DEV) renderStats.requests++;
+  if (renderQueued) return;
+  renderQueued = true;
+  // A one-off listener goes to the back of the ticker, so it runs this frame
+  // behind whichever callback asked — springs and eyes included, whenever
+  // they were registered
+  gsap.ticker.add(flushRender, true);
 }
 
-// ==============================================
-// ANIMATION HELPERS
-// ==============================================
-
 /**
- * Split a dot into two dots with a natural stretching/bouncing motion.
- * Uses native GSAP easing for physics-like behavior.
- *
- * Returns the new dot and a timeline you can add to your scroll animation.
+ * The logo only moves when the viewport resizes or a tween transforms it
+ * or its container (the hero's exit). Inline transforms are read without
+ * forcing layout, so measuring again is left until one of them changes.
  */
-export function splitDot(
-  sourceId: string,
-  newId: string,
-  options: {
-    direction?: "horizontal" | "vertical";
-    separationDistance?: number;
-    stretchAmount?: number;
-    // Elastic easing config (GSAP native)
-    elasticAmplitude?: number; // 1 = normal, >1 = more overshoot
-    elasticPeriod?: number; // 0.3 = tight spring, 1 = loose wobble
-  } = {},
-): { newDot: DotState; timeline: gsap.core.Timeline } | null {
-  const source = dots.get(sourceId);
-  if (!source) return null;
-
-  const {
-    direction = "horizontal",
-    separationDistance = 50,
-    stretchAmount = 2,
-    elasticAmplitude = 1,
-    elasticPeriod = 0.4,
-  } = options;
-
-  // Create new dot at same position (copies current state)
-  const newDot = createDot(newId, {
-    baseXPercent: source.baseXPercent,
-    baseYPercent: source.baseYPercent,
-    offsetX: source.offsetX,
-    offsetY: source.offsetY,
-    baseSize: source.baseSize,
-    scale: source.scale,
-    scaleX: 1,
-    scaleY: 1,
-    color: source.color,
-    opacity: 0,
-  });
+function currentLogoRect(): LogoRect | null {
+  if (!logo) return null;
+  let transforms = "";
+  for (let el: HTMLElement | null = logo; el; el = el.parentElement) {
+    transforms += `${el.style.transform};`;
+  }
+  if (!logoRect || transforms !== logoTransforms) {
+    logoRect = logo.getBoundingClientRect();
+    logoTransforms = transforms;
+  }
+  return logoRect;
+}
 
-  const isHorizontal = direction === "horizontal";
-  const timeline = gsap.timeline();
+function draw() {
+  dotSet.sync();
+  let frames = computeDotFrames(
+    { dots: [...dots.values()], globalState, ellipseOrbit, formation },
+    { width: window.innerWidth, height: window.innerHeight },
+    currentLogoRect(),
+  );
+  if (arrival) frames = blendDotFrames(arrival.from, frames, arrival.progress);
+  renderer?.render(frames);
 
-  // Store original offsets for relative movement
-  const origOffsetX = source.offsetX;
-  const origOffsetY = source.offsetY;
+  lastFrames.clear();
+  frames.forEach((frame) => lastFrames.set(frame.id, frame));
+}
 
-  // Phase 1: Stretch (ease in for anticipation)
-  timeline.to(source, {
-    scaleX: isHorizontal ? stretchAmount : 1,
-    scaleY: isHorizontal ? 1 : stretchAmount,
-    duration: 0.3,
-    ease: "power2.in",
-    onUpdate: render,
-  });
+// Draw if anything asked for it since the last frame
+function flushRender() {
+  if (!renderQueued) return;
+  renderQueued = false;
 
-  // Phase 2: Split - reveal new dot, separate with elastic bounce
-  // The elastic ease handles the "snap back to circle" naturally
-  timeline.add(() => {
-    newDot.scaleX = source.scaleX;
-    newDot.scaleY = source.scaleY;
-    newDot.opacity = 1;
-    render();
-  });
+  if (!import.meta.env.DEV) {
+    draw();
+    return;
+  }
+  const start = performance.now();
+  draw();
+  renderStats.drawTime += performance.now() - start;
+  renderStats.draws++;
+}
 
-  // Both dots: shrink back to circle + move apart (GSAP handles physics via elastic ease)
-  timeline.to(
-    source,
-    {
-      offsetX: origOffsetX + (isHorizontal ? -separationDistance / 2 : 0),
-      offsetY: origOffsetY + (isHorizontal ? 0 : -separationDistance / 2),
-      scaleX: 1,
-      scaleY: 1,
-      duration: 0.5,
-      ease: `elastic.out(${elasticAmplitude}, ${elasticPeriod})`,
-      onUpdate: render,
-    },
-    ">-0.05", // Slight overlap for smooth transition
-  );
+// ==============================================
+// CLOCK
+// Idle motion and continuous satellite orbits run on real seconds, so
+// they keep going while the page is still and at the same speed at any
+// refresh rate. Paused while the tab is hidden and for reduced motion.
+// ==============================================
 
-  timeline.to(
-    newDot,
-    {
-      offsetX: origOffsetX + (isHorizontal ? separationDistance / 2 : 0),
-      offsetY: origOffsetY + (isHorizontal ? 0 : separationDistance / 2),
-      scaleX: 1,
-      scaleY: 1,
-      duration: 0.5,
-      ease: `elastic.out(${elasticAmplitude}, ${elasticPeriod})`,
-      onUpdate: render,
-    },
-    "<", // Same time as previous
-  );
+const MAX_CLOCK_STEP = 0.1; // s — a long frame, or coming back to the tab, doesn't leap ahead
 
-  return { newDot, timeline };
-}
+let reducedMotion = false; // as the current scene was built
 
-/**
- * Create a satellite dot that orbits around a parent dot.
- *
- * For scroll-linked orbit, set orbitSpeed to 0 and animate orbitAngle with GSAP.
- * For continuous orbit, set orbitSpeed > 0 (degrees per frame).
- *
- * Alternative: Use GSAP MotionPathPlugin for path-based orbits:
- * gsap.to(satellite.element, { motionPath: { path: "circle", ... } })
- */
-export function createSatellite(
-  parentId: string,
-  satelliteId: string,
-  options: {
-    orbitRadius?: number;
-    orbitSpeed?: number; // 0 = scroll-controlled, >0 = continuous (degrees/frame)
-    size?: number;
-    color?: string;
-    startAngle?: number;
-  } = {},
-): DotState | null {
-  const parent = dots.get(parentId);
-  if (!parent) return null;
-
-  const {
-    orbitRadius = 30,
-    orbitSpeed = 0, // Default to scroll-controlled
-    size = parent.baseSize * 0.3,
-    color = parent.color,
-    startAngle = 0,
-  } = options;
-
-  return createDot(satelliteId, {
-    parentId,
-    baseSize: size,
-    color,
-    orbitAngle: startAngle,
-    satelliteOrbitRadius: orbitRadius,
-    satelliteOrbitSpeed: orbitSpeed,
-  });
+// Ticker callback: advance the clock
+function tick(_time: number, deltaTime: number) {
+  if (reducedMotion || document.hidden) return;
+  const dt = Math.min(deltaTime / 1000, MAX_CLOCK_STEP);
+  const state = { dots: [...dots.values()], globalState, ellipseOrbit, formation };
+  if (advanceClock(state, dt)) render();
 }
 
+// ==============================================
+// CLEANUP
+// ==============================================
+
 /**
- * Merge two dots back into one (reverse of split).
- * Uses GSAP elastic ease for natural collision feel.
+ * Tear the animation down. With `handOff` (before a view-transition swap)
+ * the current dots stay on screen and are passed on to the next
+ * initDotsAnimation(), which continues from them.
  */
-export function mergeDots(
-  dot1Id: string,
-  dot2Id: string,
-  options: {
-    resultId?: string; // Which dot survives (default: dot1Id)
-    mergePoint?: "dot1" | "dot2" | "middle";
-  } = {},
-): gsap.core.Timeline | null {
-  const d1 = dots.get(dot1Id);
-  const d2 = dots.get(dot2Id);
-  if (!d1 || !d2) return null;
-
-  const { resultId = dot1Id, mergePoint = "middle" } = options;
+export function cleanupDotsAnimation(options: { handOff?: boolean } = {}) {
+  // Draw what's pending, then detach the renderer: the disposers below
+  // re-render while reverting, and a handed-off renderer must keep
+  // showing the last frame
+  flushRender();
+  gsap.ticker.remove(tick);
+  const outgoing = renderer;
+  renderer = null;
+  const snapshot: SimulationState | null = options.handOff ? snapshotState() : null;
+  const handoffLogoRect = currentLogoRect();
 
-  const timeline = gsap.timeline();
+  if (resizeHandler) {
+    window.removeEventListener("resize", resizeHandler);
+    resizeHandler = null;
+  }
+  window.clearTimeout(resizeTimer);
+  sceneContext = null;
+  if (themeHandler) {
+    document.removeEventListener("themechange", themeHandler);
+    themeHandler = null;
+  }
+  arrivalTween?.kill();
+  arrivalTween = null;
+  arrival = null;
+  stopMotionListener?.();
+  stopMotionListener = null;
+  disposeMotion?.();
+  disposeMotion = null;
+  disposePointer?.();
+  disposePointer = null;
+  disposeEyes?.();
+  disposeEyes = null;
+  debugGeneration++;
+  disposeDebug?.();
+  disposeDebug = null;
+  rebuildListener = null;
+  masterTimeline = null;
+  masterKeyframes = [];
+  masterMotifs = [];
+
+  handoff?.renderer.destroy();
+  handoff = null;
+  if (outgoing && snapshot && rendererContainer) {
+    handoff = {
+      container: rendererContainer,
+      renderer: outgoing,
+      state: snapshot,
+      logoRect: handoffLogoRect,
+    };
+  } else {
+    // Renderer removes the visuals of dynamically created dots
+    outgoing?.destroy();
+  }
+  rendererContainer = null;
+  dotSet.clear();
+  lastFrames.clear();
+  renderQueued = false;
+  logo = null;
+  logoRect = null;
+}
 
-  // Calculate merge position
-  let targetX: number;
-  let targetY: number;
+// ==============================================
+// SCENE TARGETS
+// ==============================================
 
-  if (mergePoint === "dot1") {
-    targetX = d1.offsetX;
-    targetY = d1.offsetY;
-  } else if (mergePoint === "dot2") {
-    targetX = d2.offsetX;
-    targetY = d2.offsetY;
-  } else {
-    targetX = (d1.offsetX + d2.offsetX) / 2;
-    targetY = (d1.offsetY + d2.offsetY) / 2;
+// Map a scene keyframe target to the live object(s) the timeline tweens;
+// selectors are looked up on the page
+function resolveSceneTarget(target: SceneTarget): gsap.TweenTarget | null {
+  if (typeof target === "object" && "selector" in target) {
+    const element = document.querySelector(target.selector);
+    if (!element) console.warn(`[dots-animation] Keyframe target "${target.selector}" not found.`);
+    return element;
   }
+  return resolveStateTarget(target, dotSet, { globalState, ellipseOrbit, formation });
+}
 
-  // Move both toward merge point
-  timeline.to([d1, d2], {
-    offsetX: targetX,
-    offsetY: targetY,
-    duration: 0.4,
-    ease: "power2.in",
-    onUpdate: render,
-  });
+// ==============================================
+// MASTER TIMELINE
+// ==============================================
 
-  // Stretch on impact
-  const survivor = resultId === dot1Id ? d1 : d2;
-  const removed = resultId === dot1Id ? d2 : d1;
+/**
+ * Compile the page's declarative scene (dots-scene.ts) into the master timeline.
+ *
+ * Full motion: the timeline is scrubbed by scroll.
+ * Reduced motion: the timeline stays paused and jumps to one static pose
+ * per section as that section comes into view — no orbiting.
+ *
+ * Returns a cleanup that undoes what the motifs did to the set of dots.
+ */
+function buildMasterTimeline(ctx: SceneContext, reduced: boolean): () => void {
+  const layout = measureSceneLayout(scene);
+  eyesFadeOut = scene.eyes ? resolveAnchor(scene.eyes.fadeOut, layout) ?? 0 : 0;
 
-  timeline.add(() => {
-    removed.opacity = 0;
-    render();
+  const masterTl = gsap.timeline({
+    paused: reduced,
+    scrollTrigger: reduced
+      ? undefined
+      : {
+          trigger: scene.trigger.start,
+          start: "top top",
+          endTrigger: scene.trigger.end,
+          end: "bottom bottom",
+          scrub: scene.trigger.scrub,
+          fastScrollEnd: 3000,
+        },
+    onUpdate: render, // Single render call per frame instead of per-animation
   });
 
-  timeline.to(survivor, {
-    scaleX: 1.5,
-    scaleY: 0.7,
-    duration: 0.1,
-    ease: "power2.out",
-    onUpdate: render,
+  // Motifs first, so keyframes can target the dots they add
+  masterMotifs = resolveMotifs(scene, layout, ctx);
+  compileMotifs(masterTl, masterMotifs);
+
+  masterKeyframes = resolveScene(scene, layout, ctx);
+  compileScene(masterTl, masterKeyframes, resolveSceneTarget);
+  masterTimeline = masterTl;
+
+  if (!reduced) return dotSet.reset;
+
+  resolvePoses(scene, layout).forEach((pose) => {
+    ScrollTrigger.create({
+      trigger: pose.section,
+      start: "top center",
+      end: "bottom center",
+      onToggle: (self) => {
+        if (self.isActive) masterTl.progress(pose.progress);
+      },
+    });
   });
 
-  // Bounce back to circle
-  timeline.to(survivor, {
-    scaleX: 1,
-    scaleY: 1,
-    duration: 0.4,
-    ease: "elastic.out(1, 0.3)",
-    onUpdate: render,
-  });
+  return dotSet.reset;
+}
 
-  // Remove the merged dot
-  timeline.add(() => {
-    removeDot(resultId === dot1Id ? dot2Id : dot1Id);
+// (Re)start the scroll-driven scene for the current motion preference
+function startScene(ctx: SceneContext) {
+  disposeMotion?.();
+  // The timeline tweens from whatever it finds, so set the stage first
+  applyEntry({ dots: [...dots.values()], globalState, ellipseOrbit, formation }, resolveEntry(scene, ctx));
+  reducedMotion = prefersReducedMotion();
+  let resetMotifs = () => {};
+  const context = gsap.context(() => {
+    resetMotifs = buildMasterTimeline(ctx, reducedMotion);
   });
-
-  return timeline;
+  render();
+  disposeMotion = () => {
+    context.revert();
+    resetMotifs();
+  };
 }
 
-// ==============================================
-// CLEANUP
-// ==============================================
+const isPortrait = (ctx: SceneContext) => ctx.vh > ctx.vw;
 
-export function cleanupDotsAnimation() {
-  if (resizeHandler) {
-    window.removeEventListener("resize", resizeHandler);
-    resizeHandler = null;
+/**
+ * Rebuild the scene (new viewport, palette or motion preference) and seek
+ * it back to where it was, so the dots don't replay everything from the
+ * top. Any catch-up the new trigger started is finished first — the scrub
+ * then only eases over the difference on the next scroll. `beforeStart`
+ * runs between tearing the old timeline down and building the new one.
+ *
+ * Under reduced motion the section poses already jumped to the right place.
+ * Last, an open debug overlay gets to put its seek back on the new timeline.
+ */
+function rebuildScene(ctx: SceneContext, beforeStart?: () => void) {
+  const progress = masterTimeline?.progress() ?? 0;
+  disposeMotion?.();
+  disposeMotion = null;
+  beforeStart?.();
+  startScene(ctx);
+  if (!reducedMotion) {
+    masterTimeline?.scrollTrigger?.getTween()?.progress(1);
+    masterTimeline?.progress(progress);
   }
-  ScrollTrigger.getAll().forEach((trigger) => trigger.kill());
-
-  // Remove dynamically created dots (keep original dot1, dot2)
-  dots.forEach((dot, id) => {
-    if (id !== "dot1" && id !== "dot2") {
-      dot.element.remove();
-    }
-  });
-  dots.clear();
+  rebuildListener?.();
 }
 
 // ==============================================
 // INITIALIZATION
 // ==============================================
 
-export function initDotsAnimation() {
-  container = document.getElementById("dots-container");
+export function initDotsAnimation(
+  options: {
+    renderer?: DotRendererKind;
+    pointer?: boolean; // opt into pointer-reactive springs (fine pointers, full motion only)
+    scene?: SceneDescription; // defaults to the home page choreography
+  } = {},
+) {
+  scene = options.scene ?? dotsScene;
+  const container = document.getElementById("dots-container");
   logo = document.getElementById("logo-svg");
+  logoRect = null;
+  gsap.ticker.add(tick);
 
-  const dot1Element = document.getElementById(
-    "dot1",
-  ) as unknown as SVGSVGElement;
-  const dot2Element = document.getElementById(
-    "dot2",
-  ) as unknown as SVGSVGElement;
-
-  if (!dot1Element || !dot2Element) {
+  if (!container) {
     console.warn(
-      "[dots-animation] Dot elements not found. Animation disabled.",
+      "[dots-animation] Dots container not found. Animation disabled.",
     );
     return;
   }
 
-  if (!logo) {
+  // Keep drawing into the persisted container, or start fresh
+  if (handoff?.container === container) {
+    renderer = handoff.renderer;
+  } else {
+    handoff?.renderer.destroy();
+    renderer = createDotRenderer(options.renderer ?? "svg", container);
+  }
+  rendererContainer = container;
+  const previous = handoff;
+  handoff = null;
+
+  if (!logo && scene.eyes) {
     console.warn("[dots-animation] Logo not found. Dots will be centered.");
   }
 
@@ -634,198 +473,179 @@ export function initDotsAnimation() {
   // CREATE MAIN DOTS
   // ==============================================
 
-  const isMobile = window.innerWidth < 768;
-
-  // Derive baseSize purely from viewport width — no DOM measurement needed.
-  // Logo is w-[80vw] max-w-4xl (max-w-4xl = 896px at 16px base).
-  // ~2.7% of logo width matches the "e" eye holes across all screen sizes.
-  // This is always accurate from frame 0 and never causes mid-animation jumps.
-  const getBaseSize = () => Math.min(window.innerWidth * 0.80, 896) * 0.027;
-
-  // Match initial dot color to the logo text so dots blend seamlessly at rest.
-  const themeTextColor = getComputedStyle(document.documentElement)
-    .getPropertyValue("--color-text").trim();
-  if (themeTextColor) colors.dark = themeTextColor;
-
-  const dot1 = createDot("dot1", {
-    element: dot1Element,
-    baseXPercent: -0.02,
-    baseYPercent: -0.05,
-    baseSize: getBaseSize(),
-    orbitAngle: 180,
-  });
+  // Match the palette to the theme — at rest the dots blend into the logo text
+  resolvePalette();
 
-  const dot2 = createDot("dot2", {
-    element: dot2Element,
-    baseXPercent: 0.1,
-    baseYPercent: -0.05,
-    baseSize: getBaseSize(),
-    orbitAngle: 0,
-  });
+  sceneContext = createSceneContext(
+    { width: window.innerWidth, height: window.innerHeight },
+    colors,
+  );
 
-  // Initial render
-  render();
+  // The scene's dots start as the eyes in the logo (centered when there is none)
+  Object.assign(globalState, createGlobalState());
+  Object.assign(ellipseOrbit, createEllipseOrbitState());
+  Object.assign(formation, createFormationState());
+  scene.dots.forEach(({ id, ...dot }) => {
+    createDot(id, { ...dot, baseSize: scene.dotSize(sceneContext!) });
+  });
 
   // ==============================================
   // SCROLL ANIMATIONS
+  // Rebuilt whenever the reduced-motion preference flips
   // ==============================================
 
+  startScene(sceneContext);
+  stopMotionListener = onMotionPreferenceChange(() => rebuildScene(sceneContext!));
+
   // ==============================================
-  // SINGLE CONTINUOUS TIMELINE: Hero through Footer
-  // Wiggle flows into orbit flows into ellipse - no stops
+  // ARRIVAL
+  // Coming from another page: glide from where the dots were into this
+  // page's pose (instantly under reduced motion)
   // ==============================================
 
-  const heroContent = document.querySelector(".hero-content") as HTMLElement;
-  const footer = document.getElementById("contact");
-
-  // One master timeline: top of hero → footer
-  // Everything is continuous - wiggle, explosion, orbit, ellipse all flow together
-  const masterTl = gsap.timeline({
-    scrollTrigger: {
-      trigger: "#hero",
-      start: "top top",
-      endTrigger: footer || "#process",
-      end: "bottom bottom",
-      scrub: 0.5,
-      fastScrollEnd: 3000,
-    },
-    onUpdate: render, // Single render call per frame instead of per-animation
-  });
-
-  // Timeline ratios (hero is ~120vh, about ~100vh, process ~750vh, footer ~50vh = ~1020vh total)
-  // Hero portion: 0 - 0.12 (120/1020)
-  // Wiggle: 0 - 0.03 (first 25% of hero)
-  // EXPLOSION at 0.03: logo scales up + dots scale up + orbit begins - all together!
-
-  // Responsive values
-  const vw = window.innerWidth;
-  const peakOrbitRadius = isMobile ? vw * 0.7 : 700;
-  const peakScale1 = isMobile ? 28 : 40;
-  const peakScale2 = isMobile ? 40 : 60;
-  const restScale1 = isMobile ? 8 : 6;
-  const restScale2 = isMobile ? 10 : 8;
-  const elRadiusX = isMobile ? Math.min(110, vw * 0.30) : 270;
-  const elRadiusY = isMobile ? 65 : 155;
-  const elRadiusXMax = isMobile ? Math.min(130, vw * 0.34) : 310;
-  const elRadiusYMax = isMobile ? 80 : 175;
-  const processScale1 = 16; // mobile dot1
-  const processScale2 = 20; // mobile dot2
-  const processScale2Desktop = 18; // desktop dot2 (dot1 stays small at restScale1)
-
-  // === Wiggle phase (0 - 3% of timeline) ===
-  masterTl.to([dot1, dot2], { offsetX: isMobile ? 15 : 30, duration: 0.015 }, 0);
-  masterTl.to([dot1, dot2], { offsetX: 0, duration: 0.015 }, 0.015);
-
-  // === EXPLOSION: Everything happens together at 0.03 ===
-  // Colors start changing
-  masterTl.to(dot1, { color: colors.green, duration: 0.05 }, 0.03);
-  masterTl.to(dot2, { color: colors.orange, duration: 0.05 }, 0.03);
-
-  // Logo scales up and exits - synchronized with dots
-  if (heroContent) {
-    masterTl.to(
-      heroContent,
-      { scale: isMobile ? 2 : 3.5, y: "-100vh", duration: 0.08, ease: "power2.out" },
-      0.03,
-    );
+  if (previous && !prefersReducedMotion()) {
+    arrival = {
+      from: computeDotFrames(
+        previous.state,
+        { width: window.innerWidth, height: window.innerHeight },
+        previous.logoRect,
+      ),
+      progress: 0,
+    };
+    arrivalTween = gsap.to(arrival, {
+      progress: 1,
+      duration: ARRIVAL_DURATION,
+      ease: "power2.inOut",
+      onUpdate: render,
+      onComplete: () => {
+        arrival = null;
+        arrivalTween = null;
+        render();
+      },
+    });
   }
+  render();
 
-  // Dots scale up
-  masterTl.to(dot1, { scale: peakScale1, duration: 0.06, ease: "power2.out" }, 0.03);
-  masterTl.to(dot2, { scale: peakScale2, duration: 0.06, ease: "power2.out" }, 0.03);
-
-  // Orbit radius and angle start TOGETHER - spiral outward while rotating
-  masterTl.to(
-    globalState,
-    { orbitRadius: peakOrbitRadius, duration: 0.06, ease: "power2.out" },
-    0.03,
-  );
-
-  // Global orbit rotation: continues through expansion AND contraction (spiral in + out)
-  masterTl.to(
-    globalState,
-    { orbitAngle: 540, duration: 0.17, ease: "none" },
-    0.03,
-  );
+  // ==============================================
+  // EYE TRACKING
+  // The dots are pupils until scrolling takes over
+  // ==============================================
 
-  // === Scale down - starts when scale-up ends (0.09) to avoid overlap ===
-  masterTl.to(dot1, { scale: restScale1, duration: 0.08, ease: "power1.inOut" }, 0.09);
-  masterTl.to(dot2, { scale: restScale2, duration: 0.08, ease: "power1.inOut" }, 0.09);
+  const eyes = scene.eyes;
+  if (logo && eyes) {
+    disposeEyes = createEyeTracker({
+      getEyes: () =>
+        scene.dots
+          .map(({ id }) => dots.get(id))
+          .filter((dot): dot is DotState => !!dot),
+      getPosition: (id) => lastFrames.get(id),
+      travel: eyes.travel,
+      getWeight: () => {
+        const progress = masterTimeline?.progress() ?? 0;
+        if (eyesFadeOut <= 0) return progress > 0 ? 0 : 1;
+        // Smoothstep so the pupils ease into the wiggle instead of snapping
+        const t = Math.min(progress / eyesFadeOut, 1);
+        return 1 - t * t * (3 - 2 * t);
+      },
+      onUpdate: render,
+    });
+  }
 
-  // Radius contracts AFTER dots are small - safer transition
-  masterTl.to(
-    globalState,
-    { orbitRadius: 0, duration: 0.12, ease: "power2.in" },
-    0.1,
-  );
+  // ==============================================
+  // POINTER INTERACTION
+  // Only once the dots have settled into the ellipse
+  // ==============================================
 
-  // === TRANSITION: Global orbit spirals IN, ellipse orbit spirals OUT ===
-  // Ellipse blend: GSAP tweens globalState.ellipseBlend directly — reliable scrub reversal
-  masterTl.to(globalState, { ellipseBlend: 1, duration: 0.1, ease: "power1.inOut" }, 0.08);
-
-  // Ellipse orbit rotation: one continuous animation, constant speed
-  masterTl.fromTo(
-    ellipseOrbit,
-    { angle: 540 },
-    {
-      angle: 4545,
-      duration: 0.8,
-      ease: "none",
-    },
-    0.08,
-  );
+  if (options.pointer) {
+    disposePointer = createPointerLayer({
+      getDots: () => dots.values(),
+      getPosition: (id) => lastFrames.get(id),
+      getInfluence: () => globalState.ellipseBlend,
+      onUpdate: render,
+    });
+  }
 
-  // Ellipse radius EXPANDS
-  masterTl.to(
-    ellipseOrbit,
-    { radiusX: elRadiusX, radiusY: elRadiusY, duration: 0.06, ease: "power2.out" },
-    0.08,
-  );
+  // ==============================================
+  // DEBUG OVERLAY
+  // ?debug=dots or Alt+Shift+D. The dynamic import sits behind
+  // import.meta.env.DEV, so production builds drop it entirely.
+  // ==============================================
 
-  // === Process section scale - dots diverge in size ===
-  if (isMobile) {
-    masterTl.to(dot1, { scale: processScale1, duration: 0.06, ease: "power1.inOut" }, 0.20);
-    masterTl.to(dot2, { scale: processScale2, duration: 0.06, ease: "power1.inOut" }, 0.20);
-  } else {
-    // Desktop: dot2 grows large while dot1 stays at rest — dramatic size ratio
-    masterTl.to(dot2, { scale: processScale2Desktop, duration: 0.06, ease: "power1.inOut" }, 0.20);
+  if (import.meta.env.DEV) {
+    const generation = ++debugGeneration;
+    import("./dots-debug").then(({ attachDotsDebug }) => {
+      if (generation !== debugGeneration) return;
+      disposeDebug = attachDotsDebug({
+        getTimeline: () => masterTimeline,
+        getKeyframes: () => masterKeyframes,
+        getMotifs: () => masterMotifs,
+        onRebuild: (listener) => {
+          rebuildListener = listener;
+          return () => (rebuildListener = null);
+        },
+        getDots: () => dots.values(),
+        globalState,
+        ellipseOrbit,
+        formation,
+        render,
+        renderStats,
+      });
+    });
   }
 
-  // === Breathing size changes - organic pulsing ===
-  masterTl.to(
-    ellipseOrbit,
-    { radiusX: elRadiusXMax, radiusY: elRadiusYMax, duration: 0.14 },
-    0.24,
-  );
-  masterTl.to(
-    ellipseOrbit,
-    { radiusX: elRadiusX * 0.9, radiusY: elRadiusY * 0.85, duration: 0.14 },
-    0.4,
-  );
-  masterTl.to(
-    ellipseOrbit,
-    { radiusX: elRadiusX * 1.1, radiusY: elRadiusY, duration: 0.14 },
-    0.56,
-  );
-  masterTl.to(
-    ellipseOrbit,
-    { radiusX: elRadiusX, radiusY: elRadiusY * 0.92, duration: 0.14 },
-    0.72,
-  );
+  // ==============================================
+  // THEME HANDLER
+  // Colors are baked into the timeline's tweens, so rebuild it for the new palette
+  // ==============================================
+
+  themeHandler = () => {
+    const previousDark = colors.dark;
+
+    // The old timeline is reverted first: dots go back to their rest color
+    // before the palette changes
+    rebuildScene(sceneContext!, () => {
+      resolvePalette();
+      dots.forEach((dot) => {
+        if (dot.color === previousDark) dot.color = colors.dark;
+      });
+    });
+  };
+  document.addEventListener("themechange", themeHandler);
 
   // ==============================================
   // RESIZE HANDLER
   // ==============================================
 
-  resizeHandler = () => {
-    const newBaseSize = getBaseSize();
-    const d1 = dots.get("dot1");
-    const d2 = dots.get("dot2");
-    if (d1) d1.baseSize = newBaseSize;
-    if (d2) d2.baseSize = newBaseSize;
+  // Re-resolve the scene once the viewport has settled
+  const onResizeEnd = () => {
+    const previous = sceneContext!;
+    const next = createSceneContext({ width: window.innerWidth, height: window.innerHeight }, colors);
+    sceneContext = next;
+
+    const newBaseSize = scene.dotSize(next);
+    scene.dots.forEach(({ id }) => {
+      const dot = dots.get(id);
+      if (dot) dot.baseSize = newBaseSize;
+    });
+
+    // Section anchors and the viewport-based values the timeline was built
+    // with are stale now. A phone's address bar showing or hiding only
+    // changes the height — ScrollTrigger ignores that too, so skip the rebuild.
+    const addressBarOnly =
+      next.isMobile && next.vw === previous.vw && isPortrait(next) === isPortrait(previous);
+    if (!addressBarOnly) rebuildScene(next);
     render();
     ScrollTrigger.refresh();
   };
+
+  // The canvas follows every frame of a resize; the scene only after a pause
+  resizeHandler = () => {
+    logoRect = null;
+    renderer?.resize();
+    render();
+    window.clearTimeout(resizeTimer);
+    resizeTimer = window.setTimeout(onResizeEnd, RESIZE_DEBOUNCE);
+  };
   window.addEventListener("resize", resizeHandler);
 }
 
@@ -835,7 +655,12 @@ export {
   getDot,
   createDot,
   removeDot,
+  setDotLifetime,
+  splitDot,
+  createSatellite,
+  mergeDots,
   render,
   globalState,
   ellipseOrbit,
+  formation,
 };
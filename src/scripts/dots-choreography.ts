@@ -0,0 +1,388 @@
+import gsap from "gsap";
+
+// ==============================================
+// TYPES
+// ==============================================
+
+/** Everything a scene value may depend on when it is resolved */
+export interface SceneContext {
+  isMobile: boolean;
+  vw: number; // viewport width in px
+  vh: number; // viewport height in px
+  colors: Record<string, string>;
+}
+
+export type SceneScalar = number | string;
+
+export const MOBILE_BREAKPOINT = 768;
+
+// A literal, or computed from the viewport / palette at compile time
+export type SceneValue = SceneScalar | ((ctx: SceneContext) => SceneScalar);
+
+// Same value everywhere, or split per breakpoint
+export type ResponsiveValue =
+  | SceneValue
+  | { mobile: SceneValue; desktop: SceneValue };
+
+// What a keyframe animates: shared state objects, named dots or a DOM element
+export type SceneTarget =
+  | "globalState"
+  | "ellipseOrbit"
+  | "formation"
+  | { dots: string[] }
+  | { selector: string };
+
+/**
+ * A point in the scroll, relative to a page section.
+ * at = 0 → section top reaches the viewport top
+ * at = 1 → section bottom reaches the viewport top
+ */
+export interface SceneAnchor {
+  section: string; // CSS selector, e.g. "#about" or "#stage-build"
+  at?: number;
+}
+
+export interface SceneKeyframe {
+  label?: string;
+  target: SceneTarget;
+  start: SceneAnchor;
+  end: SceneAnchor;
+  to: Record<string, ResponsiveValue>;
+  from?: Record<string, ResponsiveValue>; // turns the tween into a fromTo
+  ease?: string;
+  only?: "mobile" | "desktop"; // skip the keyframe on the other breakpoint
+}
+
+// Where a keyframe or motif plays, and on which breakpoint
+interface SceneSpan {
+  label?: string;
+  start: SceneAnchor;
+  end: SceneAnchor;
+  only?: "mobile" | "desktop";
+}
+
+// A dot divides in two; the new one rides along with its source
+export interface SplitMotif extends SceneSpan {
+  kind: "split";
+  source: string;
+  into: string; // id of the new dot
+  direction?: "horizontal" | "vertical";
+  distance: ResponsiveValue; // px between the two halves
+}
+
+// Small dots fade in around a parent, circle it and fade out again
+export interface SatellitesMotif extends SceneSpan {
+  kind: "satellites";
+  parent: string;
+  ids: string[];
+  radius: ResponsiveValue; // px from the parent's center
+  scale: ResponsiveValue; // of the parent's base size
+  turns: number;
+}
+
+// Two dots collide and only the first one remains
+export interface MergeMotif extends SceneSpan {
+  kind: "merge";
+  dots: [string, string];
+}
+
+/**
+ * Multi-dot moments built from the split / satellite / merge helpers in
+ * dots-motifs.ts, played over [start, end] of the scroll.
+ */
+export type SceneMotif = SplitMotif | SatellitesMotif | MergeMotif;
+
+// Values the dots and shared state hold before the first keyframe
+export interface ScenePose {
+  dots?: Record<string, Record<string, ResponsiveValue>>; // by dot id
+  globalState?: Record<string, ResponsiveValue>;
+  ellipseOrbit?: Record<string, ResponsiveValue>;
+  formation?: Record<string, ResponsiveValue>;
+}
+
+// A dot the scene starts with, resting in the logo
+export interface SceneDot {
+  id: string;
+  baseXPercent: number; // logo-relative
+  baseYPercent: number;
+  orbitAngle: number; // phase in the global orbit
+  // Pointer springs, used when the page opts into pointer interaction
+  pointerStrength?: number;
+  pointerRadius?: number;
+  pointerDamping?: number;
+}
+
+export interface SceneDescription {
+  // Scroll range the master timeline is scrubbed over
+  trigger: {
+    start: string; // section whose top at viewport top = progress 0
+    end: string; // section whose bottom at viewport bottom = progress 1
+    scrub: number;
+  };
+  dots: SceneDot[];
+  dotSize: (ctx: SceneContext) => number; // base size in px, before scale
+  // Pupil mode before the first scroll (dots-eyes.ts) — only for scenes that start in the logo
+  eyes?: {
+    fadeOut: SceneAnchor; // eye offsets are gone by this point
+    travel: { x: number; y: number }; // max pupil travel, fraction of dot size
+  };
+  // Where the dots stand at the top of the page — and what they glide into
+  // when the page is reached from another one. Unset values keep their
+  // defaults: small, dark, resting in the logo.
+  entry: ScenePose;
+  keyframes: SceneKeyframe[];
+  motifs?: SceneMotif[];
+  // One static pose per section, shown instead of the scrub for reduced motion
+  poses: SceneAnchor[];
+}
+
+// Each referenced section's [start, end] in master progress (0-1, may overflow)
+export type SceneLayout = Record<string, { start: number; end: number }>;
+
+export interface ResolvedKeyframe {
+  label?: string;
+  target: SceneTarget;
+  position: number; // master progress (0-1)
+  duration: number;
+  to: Record<string, SceneScalar>;
+  from?: Record<string, SceneScalar>;
+  ease?: string;
+}
+
+export type ResolvedMotif = { label?: string; position: number; duration: number } & (
+  | Omit<SplitMotif, keyof SceneSpan | "distance"> & { distance: number }
+  | Omit<SatellitesMotif, keyof SceneSpan | "radius" | "scale"> & { radius: number; scale: number }
+  | Omit<MergeMotif, keyof SceneSpan>
+);
+
+export interface ResolvedEntry {
+  dots: Record<string, Record<string, SceneScalar>>;
+  globalState: Record<string, SceneScalar>;
+  ellipseOrbit: Record<string, SceneScalar>;
+  formation: Record<string, SceneScalar>;
+}
+
+export interface ResolvedPose {
+  section: string;
+  progress: number; // master progress to seek to while the section is in view
+}
+
+// ==============================================
+// CONTEXT
+// ==============================================
+
+export function createSceneContext(
+  viewport: { width: number; height: number },
+  colors: Record<string, string>,
+): SceneContext {
+  return {
+    isMobile: viewport.width < MOBILE_BREAKPOINT,
+    vw: viewport.width,
+    vh: viewport.height,
+    colors,
+  };
+}
+
+// ==============================================
+// LAYOUT
+// ==============================================
+
+/**
+ * Measure where every section referenced by the scene sits within the
+ * master scroll range. Sections missing from the page are left out, so
+ * keyframes anchored to them are dropped by resolveScene().
+ */
+export function measureSceneLayout(scene: SceneDescription): SceneLayout {
+  const docTop = (el: Element) => el.getBoundingClientRect().top + window.scrollY;
+
+  const startEl = document.querySelector(scene.trigger.start);
+  const endEl = document.querySelector(scene.trigger.end);
+  const scrollStart = startEl ? docTop(startEl) : 0;
+  const scrollEnd = endEl
+    ? docTop(endEl) + endEl.getBoundingClientRect().height - window.innerHeight
+    : document.documentElement.scrollHeight - window.innerHeight;
+  const range = Math.max(scrollEnd - scrollStart, 1);
+
+  const layout: SceneLayout = {};
+  const sections = new Set([
+    ...scene.keyframes.flatMap((kf) => [kf.start.section, kf.end.section]),
+    ...(scene.motifs ?? []).flatMap((motif) => [motif.start.section, motif.end.section]),
+    ...scene.poses.map((pose) => pose.section),
+    ...(scene.eyes ? [scene.eyes.fadeOut.section] : []),
+  ]);
+
+  sections.forEach((selector) => {
+    const el = document.querySelector(selector);
+    if (!el) return;
+    const top = docTop(el) - scrollStart;
+    layout[selector] = {
+      start: top / range,
+      end: (top + el.getBoundingClientRect().height) / range,
+    };
+  });
+
+  return layout;
+}
+
+// ==============================================
+// RESOLVE
+// ==============================================
+
+function resolveValue(value: ResponsiveValue, ctx: SceneContext): SceneScalar {
+  const picked =
+    typeof value === "object" ? (ctx.isMobile ? value.mobile : value.desktop) : value;
+  return typeof picked === "function" ? picked(ctx) : picked;
+}
+
+function resolveProps(
+  props: Record<string, ResponsiveValue>,
+  ctx: SceneContext,
+): Record<string, SceneScalar> {
+  const resolved: Record<string, SceneScalar> = {};
+  for (const key in props) resolved[key] = resolveValue(props[key], ctx);
+  return resolved;
+}
+
+/** Master progress (0-1) of an anchor, or null if its section isn't on the page */
+export function resolveAnchor(anchor: SceneAnchor, layout: SceneLayout): number | null {
+  const section = layout[anchor.section];
+  if (!section) return null;
+  const at = anchor.at ?? 0;
+  const progress = section.start + (section.end - section.start) * at;
+  return Math.min(Math.max(progress, 0), 1);
+}
+
+// Where a keyframe or motif sits in master progress, or null to skip it
+function resolveSpan(
+  span: SceneSpan,
+  layout: SceneLayout,
+  ctx: SceneContext,
+): { position: number; duration: number } | null {
+  if (span.only && span.only !== (ctx.isMobile ? "mobile" : "desktop")) return null;
+
+  const start = resolveAnchor(span.start, layout);
+  const end = resolveAnchor(span.end, layout);
+  if (start === null || end === null) {
+    console.warn(
+      `[dots-choreography] Skipping "${span.label ?? "keyframe"}": section not found.`,
+    );
+    return null;
+  }
+  return { position: start, duration: Math.max(end - start, 0) };
+}
+
+/**
+ * Turn the scene description into concrete tweens for the current
+ * breakpoint and layout. Pure — no DOM or GSAP access.
+ */
+export function resolveScene(
+  scene: SceneDescription,
+  layout: SceneLayout,
+  ctx: SceneContext,
+): ResolvedKeyframe[] {
+  const resolved: ResolvedKeyframe[] = [];
+
+  scene.keyframes.forEach((kf) => {
+    const span = resolveSpan(kf, layout, ctx);
+    if (!span) return;
+
+    resolved.push({
+      label: kf.label,
+      target: kf.target,
+      ...span,
+      to: resolveProps(kf.to, ctx),
+      from: kf.from ? resolveProps(kf.from, ctx) : undefined,
+      ease: kf.ease,
+    });
+  });
+
+  return resolved;
+}
+
+/** Resolve the scene's motifs for the current breakpoint and layout. Pure. */
+export function resolveMotifs(
+  scene: SceneDescription,
+  layout: SceneLayout,
+  ctx: SceneContext,
+): ResolvedMotif[] {
+  const resolved: ResolvedMotif[] = [];
+  const num = (value: ResponsiveValue) => Number(resolveValue(value, ctx));
+
+  (scene.motifs ?? []).forEach(({ start, end, only, ...motif }) => {
+    const span = resolveSpan({ label: motif.label, start, end, only }, layout, ctx);
+    if (!span) return;
+
+    if (motif.kind === "split") {
+      resolved.push({ ...motif, ...span, distance: num(motif.distance) });
+    } else if (motif.kind === "satellites") {
+      resolved.push({ ...motif, ...span, radius: num(motif.radius), scale: num(motif.scale) });
+    } else {
+      resolved.push({ ...motif, ...span });
+    }
+  });
+
+  return resolved;
+}
+
+/** Resolve the scene's entry pose for the current breakpoint. Pure. */
+export function resolveEntry(scene: SceneDescription, ctx: SceneContext): ResolvedEntry {
+  const { dots = {}, globalState = {}, ellipseOrbit = {}, formation = {} } = scene.entry;
+  const resolvedDots: ResolvedEntry["dots"] = {};
+  for (const id in dots) resolvedDots[id] = resolveProps(dots[id], ctx);
+
+  return {
+    dots: resolvedDots,
+    globalState: resolveProps(globalState, ctx),
+    ellipseOrbit: resolveProps(ellipseOrbit, ctx),
+    formation: resolveProps(formation, ctx),
+  };
+}
+
+/**
+ * Resolve the reduced-motion poses to master progress. Sections missing
+ * from the page are skipped.
+ */
+export function resolvePoses(
+  scene: SceneDescription,
+  layout: SceneLayout,
+): ResolvedPose[] {
+  const resolved: ResolvedPose[] = [];
+  scene.poses.forEach((pose) => {
+    const progress = resolveAnchor(pose, layout);
+    if (progress !== null) resolved.push({ section: pose.section, progress });
+  });
+  return resolved;
+}
+
+// ==============================================
+// COMPILE
+// ==============================================
+
+/**
+ * Add the resolved keyframes to a (scroll-scrubbed) timeline.
+ * resolveTarget maps a SceneTarget to the live object(s) GSAP should tween.
+ */
+export function compileScene(
+  timeline: gsap.core.Timeline,
+  keyframes: ResolvedKeyframe[],
+  resolveTarget: (target: SceneTarget) => gsap.TweenTarget | null,
+): gsap.core.Timeline {
+  keyframes.forEach((kf) => {
+    const target = resolveTarget(kf.target);
+    if (!target) return;
+
+    const vars: gsap.TweenVars = { ...kf.to, duration: kf.duration };
+    if (kf.ease) vars.ease = kf.ease;
+
+    if (kf.from) {
+      timeline.fromTo(target, { ...kf.from }, vars, kf.position);
+    } else {
+      timeline.to(target, vars, kf.position);
+    }
+  });
+
+  // Pin the timeline length to 1 so positions map 1:1 onto scroll progress
+  timeline.set({}, {}, 1);
+
+  return timeline;
+}
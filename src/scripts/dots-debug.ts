@@ -0,0 +1,271 @@
+import gsap from "gsap";
+import type { ResolvedKeyframe, ResolvedMotif } from "./dots-choreography";
+import type { FormationState } from "./dots-formations";
+import type { DotState, EllipseOrbitState, GlobalState } from "./dots-simulation";
+
+// ==============================================
+// DOTS DEBUG OVERLAY (dev only)
+// Open with ?debug=dots or Alt+Shift+D. Shows where every keyframe starts
+// and every motif plays on the master timeline, live state readouts, the
+// orbit paths, and a scrubber that seeks the timeline without scrolling.
+// Only ever loaded through a dynamic import behind import.meta.env.DEV,
+// so none of this reaches a production bundle.
+// ==============================================
+
+const QUERY_FLAG = "dots";
+const STORAGE_KEY = "dots-debug";
+
+export interface DotsDebugHost {
+  getTimeline: () => gsap.core.Timeline | null;
+  getKeyframes: () => ResolvedKeyframe[];
+  getMotifs: () => ResolvedMotif[];
+  // Called after every rebuild (resize, theme, motion preference). Returns an unsubscribe.
+  onRebuild: (listener: () => void) => () => void;
+  getDots: () => Iterable<DotState>;
+  globalState: GlobalState;
+  ellipseOrbit: EllipseOrbitState;
+  formation: FormationState;
+  render: () => void;
+  // Running totals kept by dots-animation.ts in dev
+  renderStats: { requests: number; draws: number; drawTime: number };
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+const PANEL_STYLE = `
+  position: fixed; left: 12px; bottom: 12px; z-index: 9999; width: 340px;
+  max-height: calc(100vh - 24px); overflow: auto; padding: 12px;
+  font: 11px/1.5 ui-monospace, monospace; color: #eae5df;
+  background: rgba(22, 21, 20, 0.88); border-radius: 8px;
+`;
+
+const fmt = (value: number, digits = 1) => value.toFixed(digits);
+
+function isRequested(): boolean {
+  if (new URLSearchParams(window.location.search).get("debug") === QUERY_FLAG) return true;
+  try {
+    return sessionStorage.getItem(STORAGE_KEY) === "on";
+  } catch {
+    return false;
+  }
+}
+
+function remember(open: boolean) {
+  try {
+    if (open) sessionStorage.setItem(STORAGE_KEY, "on");
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {}
+}
+
+// Build the overlay and start updating it. Returns a disposer.
+function mountOverlay(host: DotsDebugHost): () => void {
+  // === Orbit paths, drawn over the whole viewport ===
+  const paths = document.createElementNS(SVG_NS, "svg");
+  paths.setAttribute(
+    "style",
+    "position: fixed; inset: 0; width: 100vw; height: 100vh; z-index: 9998; pointer-events: none;",
+  );
+  const ellipse = document.createElementNS(SVG_NS, "ellipse");
+  ellipse.setAttribute("fill", "none");
+  ellipse.setAttribute("stroke", "#a862fe");
+  ellipse.setAttribute("stroke-dasharray", "6 6");
+  const globalOrbit = document.createElementNS(SVG_NS, "circle");
+  globalOrbit.setAttribute("fill", "none");
+  globalOrbit.setAttribute("stroke", "#f86e2f");
+  globalOrbit.setAttribute("stroke-dasharray", "2 6");
+  paths.append(ellipse, globalOrbit);
+
+  // === Panel ===
+  const panel = document.createElement("div");
+  panel.setAttribute("style", PANEL_STYLE);
+  panel.innerHTML = `
+    <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
+      <strong>dots debug</strong>
+      <span data-debug="progress"></span>
+    </div>
+    <div data-debug="track" style="position: relative; height: 14px; margin-bottom: 4px; background: rgba(234, 229, 223, 0.1); border-radius: 2px;">
+      <div data-debug="playhead" style="position: absolute; top: 0; bottom: 0; width: 2px; background: #f86e2f;"></div>
+    </div>
+    <input data-debug="scrubber" type="range" min="0" max="1" step="0.001" style="width: 100%;" />
+    <div style="display: flex; justify-content: space-between; margin: 4px 0 10px;">
+      <span data-debug="mode"></span>
+      <button data-debug="follow" type="button" style="text-decoration: underline;">follow scroll</button>
+    </div>
+    <pre data-debug="perf" style="margin: 0 0 10px; white-space: pre;"></pre>
+    <pre data-debug="state" style="margin: 0 0 10px; white-space: pre;"></pre>
+    <table style="width: 100%; border-collapse: collapse;">
+      <thead><tr style="text-align: left; opacity: 0.6;"><th>id</th><th>parent</th><th>scale</th></tr></thead>
+      <tbody data-debug="dots"></tbody>
+    </table>
+  `;
+
+  const part = <T extends Element>(name: string) =>
+    panel.querySelector<T>(`[data-debug="${name}"]`)!;
+  const track = part<HTMLElement>("track");
+  const playhead = part<HTMLElement>("playhead");
+  const scrubber = part<HTMLInputElement>("scrubber");
+  const progressLabel = part<HTMLElement>("progress");
+  const modeLabel = part<HTMLElement>("mode");
+  const perfLabel = part<HTMLElement>("perf");
+  const stateLabel = part<HTMLElement>("state");
+  const dotRows = part<HTMLElement>("dots");
+
+  // One marker per tween start and one bar per motif; hover for the label.
+  // Redrawn whenever the timeline is rebuilt
+  const addMarker = (title: string, style: string) => {
+    const marker = document.createElement("div");
+    marker.dataset.marker = "";
+    marker.title = title;
+    marker.setAttribute("style", `position: absolute; ${style}`);
+    track.append(marker);
+  };
+  const drawMarkers = () => {
+    track.querySelectorAll("[data-marker]").forEach((marker) => marker.remove());
+    host.getMotifs().forEach((motif) => {
+      const end = motif.position + motif.duration;
+      addMarker(
+        `${motif.label ?? motif.kind} @ ${fmt(motif.position, 3)}–${fmt(end, 3)}`,
+        `top: 8px; bottom: 2px; left: ${motif.position * 100}%; width: ${motif.duration * 100}%; background: rgba(248, 110, 47, 0.5);`,
+      );
+    });
+    host.getKeyframes().forEach((kf) => {
+      addMarker(
+        `${kf.label ?? "keyframe"} @ ${fmt(kf.position, 3)}`,
+        `top: 2px; bottom: 2px; width: 1px; left: ${kf.position * 100}%; background: #a862fe;`,
+      );
+    });
+  };
+
+  // Seeking takes the timeline off the scrollbar until "follow scroll"
+  let seeking = false;
+  const onScrub = () => {
+    const timeline = host.getTimeline();
+    if (!timeline) return;
+    if (!seeking) {
+      seeking = true;
+      timeline.scrollTrigger?.disable(false);
+    }
+    timeline.progress(Number(scrubber.value));
+    host.render();
+  };
+  const onFollow = () => {
+    if (!seeking) return;
+    seeking = false;
+    host.getTimeline()?.scrollTrigger?.enable();
+  };
+  scrubber.addEventListener("input", onScrub);
+  part<HTMLButtonElement>("follow").addEventListener("click", onFollow);
+
+  // A rebuild comes with a fresh, scrubbing ScrollTrigger: take it off the
+  // scrollbar again and go back to the seeked point
+  const stopWatching = host.onRebuild(() => {
+    drawMarkers();
+    if (!seeking) return;
+    const timeline = host.getTimeline();
+    timeline?.scrollTrigger?.disable(false);
+    timeline?.progress(Number(scrubber.value));
+    host.render();
+  });
+
+  // Frame time and render cost, averaged over about a second
+  let sample = { start: performance.now(), frames: 0, ...host.renderStats };
+  const measure = () => {
+    const now = performance.now();
+    sample.frames++;
+    const elapsed = now - sample.start;
+    if (elapsed < 1000) return;
+
+    const { requests, draws, drawTime } = host.renderStats;
+    const drawn = draws - sample.draws;
+    perfLabel.textContent = [
+      `frame         ${fmt(elapsed / sample.frames, 2)} ms`,
+      `draw          ${fmt(drawn ? (drawTime - sample.drawTime) / drawn : 0, 3)} ms`,
+      `renders/frame ${fmt((requests - sample.requests) / sample.frames, 1)} asked, ${fmt(drawn / sample.frames, 2)} drawn`,
+    ].join("\n");
+    sample = { start: now, frames: 0, ...host.renderStats };
+  };
+
+  const update = () => {
+    measure();
+    const { globalState, ellipseOrbit, formation } = host;
+    const progress = host.getTimeline()?.progress() ?? 0;
+
+    progressLabel.textContent = fmt(progress, 3);
+    playhead.style.left = `${progress * 100}%`;
+    if (!seeking) scrubber.value = String(progress);
+    modeLabel.textContent = seeking ? "seeking" : "scroll";
+
+    stateLabel.textContent = [
+      `orbitRadius   ${fmt(globalState.orbitRadius)}`,
+      `orbitAngle    ${fmt(globalState.orbitAngle)}°`,
+      `ellipseBlend  ${fmt(globalState.ellipseBlend, 3)}`,
+      `ellipse rX/rY ${fmt(ellipseOrbit.radiusX)} / ${fmt(ellipseOrbit.radiusY)}`,
+      `ellipse angle ${fmt(ellipseOrbit.angle)}°`,
+      `idle drift    ${fmt(ellipseOrbit.driftSpeed)}°/s, breath ${fmt(ellipseOrbit.breathDepth, 3)}`,
+      `ring/grid/glyph ${fmt(formation.ring, 2)} / ${fmt(formation.grid, 2)} / ${fmt(formation.glyph, 2)}`,
+    ].join("\n");
+
+    dotRows.innerHTML = [...host.getDots()]
+      .map((dot) => `<tr><td>${dot.id}</td><td>${dot.parentId ?? "–"}</td><td>${fmt(dot.scale, 2)}</td></tr>`)
+      .join("");
+
+    // Same centers the simulation uses: the viewport middle
+    const cx = window.innerWidth / 2;
+    const cy = window.innerHeight / 2;
+    ellipse.setAttribute("cx", String(cx));
+    ellipse.setAttribute("cy", String(cy));
+    ellipse.setAttribute("rx", String(Math.max(ellipseOrbit.radiusX, 0)));
+    ellipse.setAttribute("ry", String(Math.max(ellipseOrbit.radiusY, 0)));
+    ellipse.setAttribute("opacity", String(0.3 + 0.7 * globalState.ellipseBlend));
+    globalOrbit.setAttribute("cx", String(cx));
+    globalOrbit.setAttribute("cy", String(cy));
+    globalOrbit.setAttribute("r", String(Math.max(globalState.orbitRadius, 0)));
+    globalOrbit.setAttribute("opacity", String(1 - globalState.ellipseBlend));
+  };
+
+  document.body.append(paths, panel);
+  drawMarkers();
+  gsap.ticker.add(update);
+  update();
+
+  return () => {
+    stopWatching();
+    gsap.ticker.remove(update);
+    onFollow();
+    paths.remove();
+    panel.remove();
+  };
+}
+
+/**
+ * Watch for the debug flag and key combo, showing the overlay while
+ * requested. Returns a disposer.
+ */
+export function attachDotsDebug(host: DotsDebugHost): () => void {
+  let unmount: (() => void) | null = null;
+
+  const setOpen = (open: boolean) => {
+    if (open && !unmount) unmount = mountOverlay(host);
+    if (!open && unmount) {
+      unmount();
+      unmount = null;
+    }
+    remember(open);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.altKey && e.shiftKey && e.code === "KeyD") {
+      e.preventDefault();
+      setOpen(!unmount);
+    }
+  };
+
+  window.addEventListener("keydown", onKeyDown);
+  if (isRequested()) setOpen(true);
+
+  return () => {
+    window.removeEventListener("keydown", onKeyDown);
+    unmount?.();
+    unmount = null;
+  };
+}
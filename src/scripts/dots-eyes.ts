@@ -0,0 +1,158 @@
+import gsap from "gsap";
+import { onMotionPreferenceChange, prefersReducedMotion } from "./motion-preference";
+import type { DotState } from "./dots-simulation";
+
+// ==============================================
+// "IT SEES YOU" — EYE TRACKING IDLE MODE
+// Before the visitor scrolls, the dots are pupils in the two "e" letters:
+// they look at the pointer (or wander when it's idle) and blink now and then.
+// Offsets live in dot.lookX/lookY/blink and fade to zero as the master
+// timeline leaves progress 0, handing over to the wiggle phase.
+// ==============================================
+
+const IDLE_AFTER = 3; // s without pointer movement before the eyes start wandering
+const LOOK_DISTANCE = 320; // px from the eye at which the pupil reaches the edge of the hole
+const FOLLOW_RATE = 8; // 1/s — how quickly pupils catch up with their target
+const BLINK_DURATION = 0.16; // s
+const BLINK_INTERVAL = [2.5, 6]; // s, random between blinks
+
+export interface EyeTrackerOptions {
+  getEyes: () => DotState[];
+  // Last rendered center of a dot, look offset included
+  getPosition: (id: string) => { x: number; y: number } | undefined;
+  // Pupil travel inside the hole, as a fraction of the dot's base size
+  travel: { x: number; y: number };
+  // 1 at rest, 0 once scrolling has taken over
+  getWeight: () => number;
+  onUpdate: () => void;
+}
+
+/**
+ * Start the eye tracker. Disabled while reduced motion is requested
+ * (pupils stay centered, no blinking). Returns a disposer.
+ */
+export function createEyeTracker(options: EyeTrackerOptions): () => void {
+  const { getEyes, getPosition, travel, getWeight, onUpdate } = options;
+
+  let pointer: { x: number; y: number } | null = null;
+  let lastPointerMove = -Infinity;
+  let look = { x: 0, y: 0 }; // shared gaze direction, -1..1 on each axis
+  let nextBlink = 0;
+  let blinkStart = -Infinity;
+  let wasActive = false;
+  let running = false;
+
+  const onPointerMove = (e: PointerEvent) => {
+    pointer = { x: e.clientX, y: e.clientY };
+    lastPointerMove = gsap.ticker.time;
+  };
+
+  // Where the eyes want to look, -1..1 on each axis
+  const gazeTarget = (time: number, eyes: DotState[]) => {
+    if (pointer && time - lastPointerMove < IDLE_AFTER) {
+      // Aim from the midpoint between the (unshifted) eyes so both pupils move together
+      const centers: { x: number; y: number }[] = [];
+      eyes.forEach((eye) => {
+        const pos = getPosition(eye.id);
+        if (pos) centers.push({ x: pos.x - eye.lookX, y: pos.y - eye.lookY });
+      });
+      if (centers.length) {
+        const cx = centers.reduce((sum, c) => sum + c.x, 0) / centers.length;
+        const cy = centers.reduce((sum, c) => sum + c.y, 0) / centers.length;
+        const dx = pointer.x - cx;
+        const dy = pointer.y - cy;
+        const dist = Math.hypot(dx, dy);
+        const reach = Math.min(dist / LOOK_DISTANCE, 1);
+        return dist > 0 ? { x: (dx / dist) * reach, y: (dy / dist) * reach } : { x: 0, y: 0 };
+      }
+    }
+
+    // Idle wander: a slow Lissajous path
+    return {
+      x: Math.sin(time * 0.45) * 0.8,
+      y: Math.sin(time * 0.7 + 1) * 0.5,
+    };
+  };
+
+  const tick = (time: number, deltaTime: number) => {
+    const weight = Math.min(Math.max(getWeight(), 0), 1);
+    const eyes = getEyes();
+
+    if (weight === 0) {
+      // Scrolling owns the dots — clear offsets once, then stay out of the way
+      if (wasActive) {
+        eyes.forEach((eye) => {
+          eye.lookX = 0;
+          eye.lookY = 0;
+          eye.blink = 0;
+        });
+        wasActive = false;
+        onUpdate();
+      }
+      return;
+    }
+    wasActive = true;
+
+    // Ease the gaze toward its target, frame-rate independent
+    const target = gazeTarget(time, eyes);
+    const follow = 1 - Math.exp((-deltaTime / 1000) * FOLLOW_RATE);
+    look = {
+      x: look.x + (target.x - look.x) * follow,
+      y: look.y + (target.y - look.y) * follow,
+    };
+
+    // Blink: a quick close-open, both eyes together
+    if (time >= nextBlink) {
+      blinkStart = time;
+      nextBlink = time + gsap.utils.random(BLINK_INTERVAL[0], BLINK_INTERVAL[1]);
+    }
+    const blinkPhase = (time - blinkStart) / BLINK_DURATION;
+    const blink = blinkPhase >= 0 && blinkPhase <= 1 ? Math.sin(blinkPhase * Math.PI) : 0;
+
+    eyes.forEach((eye) => {
+      eye.lookX = look.x * travel.x * eye.baseSize * weight;
+      eye.lookY = look.y * travel.y * eye.baseSize * weight;
+      eye.blink = blink * weight;
+    });
+
+    onUpdate();
+  };
+
+  function start() {
+    if (running) return;
+    running = true;
+    nextBlink = gsap.ticker.time + BLINK_INTERVAL[0];
+    window.addEventListener("pointermove", onPointerMove, { passive: true });
+    gsap.ticker.add(tick);
+  }
+
+  function stop() {
+    if (!running) return;
+    running = false;
+    window.removeEventListener("pointermove", onPointerMove);
+    gsap.ticker.remove(tick);
+
+    pointer = null;
+    look = { x: 0, y: 0 };
+    getEyes().forEach((eye) => {
+      eye.lookX = 0;
+      eye.lookY = 0;
+      eye.blink = 0;
+    });
+    wasActive = false;
+    onUpdate();
+  }
+
+  const update = () => {
+    if (prefersReducedMotion()) stop();
+    else start();
+  };
+
+  const unsubscribeMotion = onMotionPreferenceChange(update);
+  update();
+
+  return () => {
+    unsubscribeMotion();
+    stop();
+  };
+}
@@ -0,0 +1,193 @@
+// ==============================================
+// FORMATIONS
+// Where each of N dots sits in a shape: an ellipse seen in perspective,
+// a flat ring, a grid, or a path traced through the logo's letters.
+// Pure math — the simulation blends these slots by the weights in
+// FormationState, so tweening a weight scrubs the dots between shapes.
+// ==============================================
+
+export type FormationKind = "ellipse" | "ring" | "grid" | "glyph";
+
+// Weights of the formations layered on top of the ellipse, and their shape.
+// The ellipse itself is weighted by globalState.ellipseBlend and shaped by
+// ellipseOrbit (radii, depth, angle), which also turns the ring.
+export interface FormationState {
+  ring: number; // 0-1
+  grid: number;
+  glyph: number;
+  ringRadius: number; // px
+  gridColumns: number; // 0 = as square as possible
+  gridGap: number; // px between cell centers
+  drift: number; // max per-dot phase drift on the ellipse, degrees
+}
+
+export interface FormationSlot {
+  x: number;
+  y: number;
+  depth: number; // size multiplier, 1 = neutral; only the ellipse has depth
+}
+
+export interface FormationArea {
+  centerX: number; // viewport center
+  centerY: number;
+  logo: { x: number; y: number; width: number; height: number }; // logo center + size
+}
+
+export interface EllipseShape {
+  radiusX: number;
+  radiusY: number;
+  depthScale: number;
+  angle: number; // degrees
+}
+
+export function createFormationState(): FormationState {
+  return {
+    ring: 0,
+    grid: 0,
+    glyph: 0,
+    ringRadius: 200,
+    gridColumns: 0,
+    gridGap: 90,
+    drift: 25,
+  };
+}
+
+const DEG = Math.PI / 180;
+
+// ==============================================
+// ELLIPSE
+// ==============================================
+
+/**
+ * Dots spread evenly around the ellipse, each chasing the one before it.
+ * Dot 0 leads at `angle`; every other dot drifts up to ±`drift` degrees
+ * around its even spacing and breathes its radius by up to ±15%, each on
+ * its own slow phase. With two dots this is the original pair: 180° apart,
+ * the second one drifting.
+ */
+export function ellipseSlot(
+  index: number,
+  count: number,
+  shape: EllipseShape,
+  drift: number,
+  area: FormationArea,
+): FormationSlot & { sin: number } {
+  const spacing = 360 / Math.max(count, 1);
+  const phase = (index - 1) * 137.5; // golden angle — neighbours never drift in step
+
+  const driftDeg = index === 0 ? 0 : Math.sin((shape.angle * 0.05 + phase) * DEG) * drift;
+  const radiusVariation =
+    index === 0 ? 1 : 1 + Math.sin((shape.angle * 0.03 + phase) * DEG) * 0.15;
+
+  const angle = (shape.angle + index * spacing + driftDeg) * DEG;
+  const sin = Math.sin(angle);
+
+  return {
+    x: area.centerX + Math.cos(angle) * shape.radiusX * radiusVariation,
+    y: area.centerY + sin * shape.radiusY * radiusVariation,
+    depth: 1 + sin * shape.depthScale,
+    sin, // > 0 = in front
+  };
+}
+
+// ==============================================
+// RING
+// ==============================================
+
+/** Even spacing on a flat circle, turning with the ellipse */
+export function ringSlot(
+  index: number,
+  count: number,
+  radius: number,
+  angle: number,
+  area: FormationArea,
+): FormationSlot {
+  const a = (angle + (index * 360) / Math.max(count, 1)) * DEG;
+  return {
+    x: area.centerX + Math.cos(a) * radius,
+    y: area.centerY + Math.sin(a) * radius,
+    depth: 1,
+  };
+}
+
+// ==============================================
+// GRID
+// ==============================================
+
+/** Row by row, centered on the viewport; the last row is centered too */
+export function gridSlot(
+  index: number,
+  count: number,
+  columns: number,
+  gap: number,
+  area: FormationArea,
+): FormationSlot {
+  const cols = columns > 0 ? Math.round(columns) : Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / cols);
+  const row = Math.floor(index / cols);
+  const col = index % cols;
+  const inRow = row === rows - 1 ? count - row * cols : cols;
+
+  return {
+    x: area.centerX + (col - (inRow - 1) / 2) * gap,
+    y: area.centerY + (row - (rows - 1) / 2) * gap,
+    depth: 1,
+  };
+}
+
+// ==============================================
+// GLYPH PATH
+// ==============================================
+
+// Stroke skeleton of "itsees" in the logo's 400×100 viewBox (Geist Bold,
+// 72px, centered, baseline at y=70). Each entry is one pen stroke.
+const GLYPH_STROKES: [number, number][][] = [
+  // i
+  [[94, 20], [94, 22]],
+  [[94, 34], [94, 70]],
+  // t
+  [[118, 22], [118, 64], [122, 70], [132, 70]],
+  [[108, 36], [132, 36]],
+  // s
+  [[168, 38], [158, 33], [146, 35], [142, 43], [150, 50], [164, 54], [170, 62], [164, 69], [150, 71], [140, 66]],
+  // e
+  [[180, 52], [214, 52], [212, 42], [204, 35], [194, 33], [184, 38], [179, 50], [181, 61], [189, 69], [200, 71], [212, 66]],
+  // e
+  [[225, 52], [259, 52], [257, 42], [249, 35], [239, 33], [229, 38], [224, 50], [226, 61], [234, 69], [245, 71], [257, 66]],
+  // s
+  [[293, 38], [283, 33], [271, 35], [267, 43], [275, 50], [289, 54], [295, 62], [289, 69], [275, 71], [265, 66]],
+];
+
+const GLYPH_VIEWBOX = { width: 400, height: 100 };
+
+// Segments with their cumulative start distance, measured once
+const glyphSegments = (() => {
+  const segments: { from: [number, number]; to: [number, number]; start: number; length: number }[] = [];
+  let total = 0;
+  GLYPH_STROKES.forEach((stroke) => {
+    for (let i = 1; i < stroke.length; i++) {
+      const length = Math.hypot(stroke[i][0] - stroke[i - 1][0], stroke[i][1] - stroke[i - 1][1]);
+      segments.push({ from: stroke[i - 1], to: stroke[i], start: total, length });
+      total += length;
+    }
+  });
+  return { segments, total };
+})();
+
+/** Evenly spaced along the letters of the logo, wherever the logo is */
+export function glyphSlot(index: number, count: number, area: FormationArea): FormationSlot {
+  const { segments, total } = glyphSegments;
+  const distance = ((index + 0.5) / Math.max(count, 1)) * total;
+  const segment =
+    segments.find((s) => distance <= s.start + s.length) ?? segments[segments.length - 1];
+  const t = segment.length > 0 ? (distance - segment.start) / segment.length : 0;
+
+  const vx = segment.from[0] + (segment.to[0] - segment.from[0]) * t;
+  const vy = segment.from[1] + (segment.to[1] - segment.from[1]) * t;
+
+  return {
+    x: area.logo.x + (vx / GLYPH_VIEWBOX.width - 0.5) * area.logo.width,
+    y: area.logo.y + (vy / GLYPH_VIEWBOX.height - 0.5) * area.logo.height,
+    depth: 1,
+  };
+}
@@ -0,0 +1,442 @@
+import gsap from "gsap";
+import type { ResolvedMotif, SceneTarget } from "./dots-choreography";
+import type { DotState, SimulationState } from "./dots-simulation";
+
+// ==============================================
+// DOTS MOTIFS
+// The dots the scene adds and takes away, and the GSAP helpers that do it
+// (split, satellites, merge). Shared by the page and by simulateDots(), so
+// a scene sampled in Node goes through the same motifs as the one on screen.
+// No DOM: the page passes its render() as `onUpdate`.
+// ==============================================
+
+// ==============================================
+// DOT SET
+// Dots the helpers add or take away exist only while the playhead of
+// their timeline is between birth and death. Membership is read from the
+// playheads (sync()) rather than flipped by callbacks, so scrubbing or
+// seeking to a point, from either direction, gives the same dots.
+// ==============================================
+
+// A point on a (possibly nested) timeline, in its local time
+export interface TimelineMark {
+  timeline: gsap.core.Timeline;
+  at: number;
+}
+
+interface DotLifetime {
+  dot: DotState;
+  born: TimelineMark | null; // null = there from the start
+  dies: TimelineMark | null; // null = stays for good
+}
+
+export interface DotSet {
+  dots: Map<string, DotState>; // the dots that exist now, in creation order
+  create(id: string, options?: Partial<DotState>): DotState;
+  remove(id: string): void;
+  lookup(id: string): DotState | undefined;
+  setLifetime(dot: DotState, marks: { born?: TimelineMark; dies?: TimelineMark }): void;
+  sync(): void;
+  reset(): void;
+  clear(): void;
+}
+
+/** `makeDot` builds a new dot's state — the page fills in its palette */
+export function createDotSet(
+  makeDot: (id: string, options: Partial<DotState>) => DotState,
+): DotSet {
+  const dots: Map<string, DotState> = new Map();
+  // Creation order, so dots that leave and come back keep their place in
+  // the draw order (and in the formations)
+  const creationOrder: Map<string, number> = new Map();
+  const lifetimes: Map<string, DotLifetime> = new Map();
+
+  // Add and remove dots to match the playheads
+  function sync() {
+    let changed = false;
+
+    lifetimes.forEach(({ dot, born, dies }) => {
+      const alive =
+        (!born || born.timeline.time() > born.at) &&
+        (!dies || dies.timeline.time() < dies.at);
+      if (alive === (dots.get(dot.id) === dot)) return;
+      if (alive) dots.set(dot.id, dot);
+      else dots.delete(dot.id);
+      changed = true;
+    });
+
+    if (!changed) return;
+    const ordered = [...dots.values()].sort(
+      (a, b) => (creationOrder.get(a.id) ?? 0) - (creationOrder.get(b.id) ?? 0),
+    );
+    dots.clear();
+    ordered.forEach((dot) => dots.set(dot.id, dot));
+  }
+
+  return {
+    dots,
+
+    create(id, options = {}) {
+      const dot = makeDot(id, options);
+      dots.set(id, dot);
+      creationOrder.set(id, creationOrder.size);
+      return dot;
+    },
+
+    remove(id) {
+      dots.delete(id);
+      lifetimes.delete(id);
+    },
+
+    // A dot by id, including ones a timeline hasn't brought in yet (or took away)
+    lookup(id) {
+      return dots.get(id) ?? lifetimes.get(id)?.dot;
+    },
+
+    // Tie a dot to timeline positions. Marks left out keep what an earlier
+    // call set, so a split can give birth to a dot that a merge later ends.
+    setLifetime(dot, marks) {
+      const existing = lifetimes.get(dot.id);
+      lifetimes.set(dot.id, {
+        dot,
+        born: marks.born ?? existing?.born ?? null,
+        dies: marks.dies ?? existing?.dies ?? null,
+      });
+      sync();
+    },
+
+    sync,
+
+    // Forget all lifetimes: dots born on a timeline go, dots it ended come back
+    reset() {
+      lifetimes.forEach(({ dot, born }) => {
+        if (born) dots.delete(dot.id);
+        else dots.set(dot.id, dot);
+      });
+      lifetimes.clear();
+    },
+
+    clear() {
+      dots.clear();
+      lifetimes.clear();
+      creationOrder.clear();
+    },
+  };
+}
+
+// Keyframe targets that are simulation state rather than page elements
+export type StateTarget = Exclude<SceneTarget, { selector: string }>;
+
+/**
+ * Map a keyframe target to the state object(s) a timeline tweens. Dots a
+ * motif adds aren't there yet while the timeline is built, so they're
+ * looked up through their lifetimes.
+ */
+export function resolveStateTarget(
+  target: StateTarget,
+  set: DotSet,
+  state: Omit<SimulationState, "dots">,
+): gsap.TweenTarget | null {
+  if (target === "globalState") return state.globalState;
+  if (target === "ellipseOrbit") return state.ellipseOrbit;
+  if (target === "formation") return state.formation;
+
+  const found = target.dots
+    .map((id) => {
+      const dot = set.lookup(id);
+      if (!dot) console.warn(`[dots-motifs] Keyframe target "${id}" not found.`);
+      return dot;
+    })
+    .filter((dot): dot is DotState => !!dot);
+  return found.length ? found : null;
+}
+
+// ==============================================
+// MOTIF HELPERS
+// Each returns a timeline to place on the master timeline; `onUpdate`
+// runs whenever one of their tweens moves a dot.
+// ==============================================
+
+export function createMotifHelpers(set: DotSet, onUpdate: () => void) {
+  /**
+   * Split a dot into two dots with a natural stretching/bouncing motion.
+   * Uses native GSAP easing for physics-like behavior.
+   *
+   * The new dot rides along with its source (a satellite at radius 0), so the
+   * pair stays together in any formation and only their offsets part them.
+   * It only exists once the timeline is past the stretch, and takes on the
+   * source's look and offsets at that point.
+   *
+   * Returns the new dot and a timeline you can add to your scroll animation.
+   */
+  function splitDot(
+    sourceId: string,
+    newId: string,
+    options: {
+      direction?: "horizontal" | "vertical";
+      separationDistance?: number;
+      stretchAmount?: number;
+      // Elastic easing config (GSAP native)
+      elasticAmplitude?: number; // 1 = normal, >1 = more overshoot
+      elasticPeriod?: number; // 0.3 = tight spring, 1 = loose wobble
+    } = {},
+  ): { newDot: DotState; timeline: gsap.core.Timeline } | null {
+    const source = set.lookup(sourceId);
+    if (!source) return null;
+
+    const {
+      direction = "horizontal",
+      separationDistance = 50,
+      stretchAmount = 2,
+      elasticAmplitude = 1,
+      elasticPeriod = 0.4,
+    } = options;
+
+    const newDot = set.create(newId, { parentId: sourceId });
+
+    const isHorizontal = direction === "horizontal";
+    const half = separationDistance / 2;
+    const timeline = gsap.timeline();
+
+    // Phase 1: Stretch (ease in for anticipation)
+    timeline.to(source, {
+      scaleX: isHorizontal ? stretchAmount : 1,
+      scaleY: isHorizontal ? 1 : stretchAmount,
+      duration: 0.3,
+      ease: "power2.in",
+      onUpdate,
+    });
+
+    // Phase 2: Split - the new dot appears as a copy of the stretched source,
+    // then both separate with elastic bounce.
+    // The elastic ease handles the "snap back to circle" naturally
+    const splitAt = timeline.duration() - 0.05; // Slight overlap for smooth transition
+    timeline.set(
+      newDot,
+      {
+        offsetX: () => source.offsetX,
+        offsetY: () => source.offsetY,
+        baseSize: () => source.baseSize,
+        scale: () => source.scale,
+        scaleX: () => source.scaleX,
+        scaleY: () => source.scaleY,
+        color: () => source.color,
+        opacity: () => source.opacity,
+      },
+      splitAt,
+    );
+    set.setLifetime(newDot, { born: { timeline, at: splitAt } });
+
+    // Both dots: shrink back to circle + move apart from where the source was
+    // (GSAP handles physics via elastic ease)
+    const apart = (sign: 1 | -1) => ({
+      [isHorizontal ? "offsetX" : "offsetY"]: `${sign > 0 ? "+" : "-"}=${half}`,
+    });
+
+    timeline.to(
+      source,
+      {
+        ...apart(-1),
+        scaleX: 1,
+        scaleY: 1,
+        duration: 0.5,
+        ease: `elastic.out(${elasticAmplitude}, ${elasticPeriod})`,
+        onUpdate,
+      },
+      splitAt,
+    );
+
+    timeline.to(
+      newDot,
+      {
+        ...apart(1),
+        scaleX: 1,
+        scaleY: 1,
+        duration: 0.5,
+        ease: `elastic.out(${elasticAmplitude}, ${elasticPeriod})`,
+        onUpdate,
+      },
+      "<", // Same time as previous
+    );
+
+    return { newDot, timeline };
+  }
+
+  /**
+   * Create a satellite dot that orbits around a parent dot.
+   *
+   * For scroll-linked orbit, set orbitSpeed to 0 and animate orbitAngle with GSAP.
+   * For continuous orbit, set orbitSpeed > 0 (degrees per second).
+   */
+  function createSatellite(
+    parentId: string,
+    satelliteId: string,
+    options: {
+      orbitRadius?: number;
+      orbitSpeed?: number; // 0 = scroll-controlled, >0 = continuous (degrees/second)
+      size?: number;
+      color?: string;
+      startAngle?: number;
+    } = {},
+  ): DotState | null {
+    const parent = set.lookup(parentId);
+    if (!parent) return null;
+
+    const {
+      orbitRadius = 30,
+      orbitSpeed = 0, // Default to scroll-controlled
+      size = parent.baseSize * 0.3,
+      color = parent.color,
+      startAngle = 0,
+    } = options;
+
+    return set.create(satelliteId, {
+      parentId,
+      baseSize: size,
+      color,
+      orbitAngle: startAngle,
+      satelliteOrbitRadius: orbitRadius,
+      satelliteOrbitSpeed: orbitSpeed,
+    });
+  }
+
+  /**
+   * Merge two dots back into one (reverse of split).
+   * Uses GSAP elastic ease for natural collision feel.
+   *
+   * The merge point is measured when the timeline gets there. The merged
+   * dot leaves on impact and is back whenever the timeline is before it.
+   */
+  function mergeDots(
+    dot1Id: string,
+    dot2Id: string,
+    options: {
+      resultId?: string; // Which dot survives (default: dot1Id)
+      mergePoint?: "dot1" | "dot2" | "middle";
+    } = {},
+  ): gsap.core.Timeline | null {
+    const d1 = set.lookup(dot1Id);
+    const d2 = set.lookup(dot2Id);
+    if (!d1 || !d2) return null;
+
+    const { resultId = dot1Id, mergePoint = "middle" } = options;
+
+    const timeline = gsap.timeline();
+
+    // Calculate merge position, once the timeline reaches it
+    const mergeTarget = (axis: "offsetX" | "offsetY") => () => {
+      if (mergePoint === "dot1") return d1[axis];
+      if (mergePoint === "dot2") return d2[axis];
+      return (d1[axis] + d2[axis]) / 2;
+    };
+
+    // Move both toward merge point
+    timeline.to([d1, d2], {
+      offsetX: mergeTarget("offsetX"),
+      offsetY: mergeTarget("offsetY"),
+      duration: 0.4,
+      ease: "power2.in",
+      onUpdate,
+    });
+
+    // Stretch on impact
+    const survivor = resultId === dot1Id ? d1 : d2;
+    const removed = resultId === dot1Id ? d2 : d1;
+
+    set.setLifetime(removed, { dies: { timeline, at: timeline.duration() } });
+
+    timeline.to(survivor, {
+      scaleX: 1.5,
+      scaleY: 0.7,
+      duration: 0.1,
+      ease: "power2.out",
+      onUpdate,
+    });
+
+    // Bounce back to circle
+    timeline.to(survivor, {
+      scaleX: 1,
+      scaleY: 1,
+      duration: 0.4,
+      ease: "elastic.out(1, 0.3)",
+      onUpdate,
+    });
+
+    return timeline;
+  }
+
+  // Satellites fade in around the parent, circle it and fade out again.
+  // They only exist for the length of the motif.
+  function orbitSatellites(
+    motif: Extract<ResolvedMotif, { kind: "satellites" }>,
+  ): gsap.core.Timeline | null {
+    const parent = set.lookup(motif.parent);
+    if (!parent) return null;
+
+    const timeline = gsap.timeline();
+    motif.ids.forEach((id, i) => {
+      const startAngle = (360 * i) / motif.ids.length;
+      const satellite = createSatellite(motif.parent, id, {
+        orbitRadius: motif.radius,
+        size: parent.baseSize,
+        startAngle,
+      });
+      if (!satellite) return;
+      set.setLifetime(satellite, {
+        born: { timeline, at: 0 },
+        dies: { timeline, at: 1 },
+      });
+
+      timeline.fromTo(
+        satellite,
+        { opacity: 0, scale: 0 },
+        {
+          opacity: 1,
+          scale: motif.scale,
+          color: () => parent.color,
+          duration: 0.2,
+          ease: "power2.out",
+        },
+        0,
+      );
+      timeline.to(
+        satellite,
+        { orbitAngle: startAngle + 360 * motif.turns, duration: 1, ease: "none" },
+        0,
+      );
+      timeline.to(satellite, { opacity: 0, scale: 0, duration: 0.2, ease: "power2.in" }, 0.8);
+    });
+    return timeline;
+  }
+
+  /**
+   * Add the motifs to a master timeline. The dots they add or take away
+   * follow the playhead (see DOT SET), and every other change is a tween,
+   * so scrubbing back undoes it.
+   */
+  function compileMotifs(timeline: gsap.core.Timeline, motifs: ResolvedMotif[]) {
+    motifs.forEach((motif) => {
+      let motifTimeline: gsap.core.Timeline | null = null;
+
+      if (motif.kind === "split") {
+        const split = splitDot(motif.source, motif.into, {
+          direction: motif.direction,
+          separationDistance: motif.distance,
+        });
+        motifTimeline = split?.timeline ?? null;
+      } else if (motif.kind === "satellites") {
+        motifTimeline = orbitSatellites(motif);
+      } else {
+        motifTimeline = mergeDots(motif.dots[0], motif.dots[1]);
+      }
+
+      if (!motifTimeline) {
+        console.warn(`[dots-motifs] Skipping "${motif.label ?? motif.kind}": dot not found.`);
+        return;
+      }
+      timeline.add(motifTimeline.duration(Math.max(motif.duration, 0.001)), motif.position);
+    });
+  }
+
+  return { splitDot, createSatellite, mergeDots, compileMotifs };
+}
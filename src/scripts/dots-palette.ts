@@ -0,0 +1,16 @@
+// ==============================================
+// DOTS PALETTE
+// The brand colors as in the light theme. The live page copies these and
+// re-reads them from the theme tokens; build-time renders (social cards)
+// use them as they are.
+// ==============================================
+
+export const palette = {
+  dark: "#212121",
+  green: "#a862fe",
+  orange: "#f86e2f",
+  greenLight: "#c49afe",
+  orangeLight: "#fa9870",
+};
+
+export type PaletteColor = keyof typeof palette;
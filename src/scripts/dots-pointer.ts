@@ -0,0 +1,140 @@
+import gsap from "gsap";
+import { onMotionPreferenceChange, prefersReducedMotion } from "./motion-preference";
+import type { DotState } from "./dots-simulation";
+
+// ==============================================
+// POINTER INTERACTION
+// Damped springs push dots away from (or pull them toward) the pointer.
+// The spring offset lives in dot.springX/springY and is added on top of the
+// scroll-driven position, so the master timeline never sees it.
+// ==============================================
+
+const FINE_POINTER_QUERY = "(pointer: fine)";
+const STIFFNESS = 120; // spring constant — how hard the offset chases its target
+const MAX_STEP = 1 / 30; // clamp dt (s) so a stalled tab doesn't explode the springs
+const REST_EPSILON = 0.01; // px / px·s⁻¹ below which a spring counts as settled
+
+export interface PointerLayerOptions {
+  getDots: () => Iterable<DotState>;
+  // Last rendered center of a dot, spring offset included
+  getPosition: (id: string) => { x: number; y: number } | undefined;
+  // 0-1 multiplier on every dot's strength, e.g. only react once orbiting
+  getInfluence?: () => number;
+  // Called on every tick the springs moved — should re-render
+  onUpdate: () => void;
+}
+
+/**
+ * Attach the pointer layer. It switches itself off on coarse pointers and
+ * when reduced motion is requested, and back on when that changes.
+ * Returns a disposer.
+ */
+export function createPointerLayer(options: PointerLayerOptions): () => void {
+  const { getDots, getPosition, getInfluence = () => 1, onUpdate } = options;
+
+  const velocities: Map<string, { vx: number; vy: number }> = new Map();
+  let pointer: { x: number; y: number } | null = null;
+  let running = false;
+
+  const onPointerMove = (e: PointerEvent) => {
+    pointer = { x: e.clientX, y: e.clientY };
+  };
+  const onPointerLeave = () => {
+    pointer = null;
+  };
+
+  const tick = (_time: number, deltaTime: number) => {
+    const dt = Math.min(deltaTime / 1000, MAX_STEP);
+    const influence = getInfluence();
+    let moving = false;
+
+    for (const dot of getDots()) {
+      const velocity = velocities.get(dot.id) ?? { vx: 0, vy: 0 };
+      velocities.set(dot.id, velocity);
+
+      // Where the spring wants to be: along the pointer → dot line, fading with distance
+      let targetX = 0;
+      let targetY = 0;
+      const pos = getPosition(dot.id);
+
+      if (pointer && pos && dot.pointerStrength !== 0 && influence > 0) {
+        const dx = pos.x - dot.springX - pointer.x;
+        const dy = pos.y - dot.springY - pointer.y;
+        const dist = Math.hypot(dx, dy);
+
+        if (dist > 0 && dist < dot.pointerRadius) {
+          const falloff = 1 - dist / dot.pointerRadius;
+          const push = dot.pointerStrength * falloff * influence;
+          targetX = (dx / dist) * push;
+          targetY = (dy / dist) * push;
+        }
+      }
+
+      // Damped spring (semi-implicit Euler)
+      const ax = STIFFNESS * (targetX - dot.springX) - dot.pointerDamping * velocity.vx;
+      const ay = STIFFNESS * (targetY - dot.springY) - dot.pointerDamping * velocity.vy;
+      velocity.vx += ax * dt;
+      velocity.vy += ay * dt;
+      dot.springX += velocity.vx * dt;
+      dot.springY += velocity.vy * dt;
+
+      const settled =
+        Math.abs(targetX - dot.springX) < REST_EPSILON &&
+        Math.abs(targetY - dot.springY) < REST_EPSILON &&
+        Math.abs(velocity.vx) < REST_EPSILON &&
+        Math.abs(velocity.vy) < REST_EPSILON;
+
+      if (settled) {
+        dot.springX = targetX;
+        dot.springY = targetY;
+        velocity.vx = 0;
+        velocity.vy = 0;
+      } else {
+        moving = true;
+      }
+    }
+
+    if (moving) onUpdate();
+  };
+
+  function start() {
+    if (running) return;
+    running = true;
+    window.addEventListener("pointermove", onPointerMove, { passive: true });
+    document.documentElement.addEventListener("pointerleave", onPointerLeave);
+    gsap.ticker.add(tick);
+  }
+
+  function stop() {
+    if (!running) return;
+    running = false;
+    window.removeEventListener("pointermove", onPointerMove);
+    document.documentElement.removeEventListener("pointerleave", onPointerLeave);
+    gsap.ticker.remove(tick);
+
+    // Snap back to the pure scroll-driven position
+    pointer = null;
+    velocities.clear();
+    for (const dot of getDots()) {
+      dot.springX = 0;
+      dot.springY = 0;
+    }
+    onUpdate();
+  }
+
+  const finePointer = window.matchMedia(FINE_POINTER_QUERY);
+  const update = () => {
+    if (finePointer.matches && !prefersReducedMotion()) start();
+    else stop();
+  };
+
+  finePointer.addEventListener("change", update);
+  const unsubscribeMotion = onMotionPreferenceChange(update);
+  update();
+
+  return () => {
+    finePointer.removeEventListener("change", update);
+    unsubscribeMotion();
+    stop();
+  };
+}
@@ -0,0 +1,207 @@
+import type { DotFrame } from "./dots-simulation";
+
+// ==============================================
+// TYPES
+// ==============================================
+
+export interface DotRenderer {
+  /** Draw a full frame. Dots missing from `frames` are removed from the output. */
+  render(frames: DotFrame[]): void;
+  /** Re-measure after a viewport change */
+  resize(): void;
+  destroy(): void;
+}
+
+export type DotRendererKind = "svg" | "canvas";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// ==============================================
+// SVG RENDERER
+// One <svg><circle/></svg> per dot, positioned with transforms
+// ==============================================
+
+// Last value written per attribute, so unchanged ones aren't written again
+type Written = Partial<Record<"transform" | "width" | "height" | "opacity" | "zIndex" | "fill", string>>;
+
+export function createSvgRenderer(container: HTMLElement): DotRenderer {
+  const elements: Map<string, { svg: SVGSVGElement; circle: SVGCircleElement; written: Written }> =
+    new Map();
+  // Elements that came with the page markup — hidden on removal, never deleted
+  const adopted: Set<string> = new Set();
+
+  function getElement(id: string) {
+    let entry = elements.get(id);
+    if (entry) return entry;
+
+    let svg = container.querySelector<SVGSVGElement>(`svg#${id}`);
+    if (svg) {
+      adopted.add(id);
+    } else {
+      svg = document.createElementNS(SVG_NS, "svg");
+      svg.setAttribute("id", id);
+      svg.setAttribute("class", "absolute");
+      svg.setAttribute("viewBox", "0 0 20 20");
+
+      const circle = document.createElementNS(SVG_NS, "circle");
+      circle.setAttribute("cx", "10");
+      circle.setAttribute("cy", "10");
+      circle.setAttribute("r", "10");
+      svg.appendChild(circle);
+      container.appendChild(svg);
+    }
+
+    entry = { svg, circle: svg.querySelector("circle")!, written: {} };
+    elements.set(id, entry);
+    return entry;
+  }
+
+  function removeElement(id: string) {
+    const entry = elements.get(id);
+    if (!entry) return;
+    if (adopted.has(id)) {
+      entry.svg.style.opacity = "0";
+    } else {
+      entry.svg.remove();
+    }
+    elements.delete(id);
+  }
+
+  return {
+    render(frames) {
+      const seen = new Set<string>();
+
+      frames.forEach((frame) => {
+        seen.add(frame.id);
+        const { svg, circle, written } = getElement(frame.id);
+        const write = (key: keyof Written, value: string, apply: (value: string) => void) => {
+          if (written[key] === value) return;
+          written[key] = value;
+          apply(value);
+        };
+
+        // Apply transform (center the dot at position)
+        const left = frame.x - frame.width / 2;
+        const top = frame.y - frame.height / 2;
+        write("transform", `translate(${left}px, ${top}px)`, (v) => (svg.style.transform = v));
+        write("width", `${frame.width}`, (v) => svg.setAttribute("width", v));
+        write("height", `${frame.height}`, (v) => svg.setAttribute("height", v));
+        write("opacity", `${frame.opacity}`, (v) => (svg.style.opacity = v));
+        write("zIndex", `${frame.zIndex}`, (v) => (svg.style.zIndex = v));
+        write("fill", frame.color, (v) => circle.setAttribute("fill", v));
+      });
+
+      // Drop dots that no longer exist (merged away, cleaned up)
+      elements.forEach((_, id) => {
+        if (!seen.has(id)) removeElement(id);
+      });
+    },
+
+    resize() {
+      // Frames arrive in viewport px — nothing to re-measure
+    },
+
+    destroy() {
+      elements.forEach((_, id) => removeElement(id));
+      adopted.clear();
+    },
+  };
+}
+
+// ==============================================
+// CANVAS RENDERER
+// A single full-viewport <canvas> — no per-dot DOM nodes
+// ==============================================
+
+function sameFrames(a: DotFrame[], b: DotFrame[]): boolean {
+  if (a.length !== b.length) return false;
+  return a.every((frame, i) => {
+    const other = b[i];
+    return (
+      frame.id === other.id &&
+      frame.x === other.x &&
+      frame.y === other.y &&
+      frame.width === other.width &&
+      frame.height === other.height &&
+      frame.color === other.color &&
+      frame.opacity === other.opacity &&
+      frame.zIndex === other.zIndex
+    );
+  });
+}
+
+export function createCanvasRenderer(
+  container: HTMLElement,
+  ctx: CanvasRenderingContext2D,
+): DotRenderer {
+  const canvas = ctx.canvas;
+  let lastFrames: DotFrame[] = [];
+
+  canvas.className = "absolute inset-0 w-full h-full";
+  canvas.setAttribute("aria-hidden", "true");
+  container.appendChild(canvas);
+
+  const renderer: DotRenderer = {
+    render(frames) {
+      // Nothing moved: the bitmap already shows this frame
+      if (frames !== lastFrames && sameFrames(frames, lastFrames)) return;
+      lastFrames = frames;
+      const dpr = window.devicePixelRatio || 1;
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      // Stable sort keeps map order for equal z — same stacking as the SVG renderer
+      const ordered = frames
+        .map((frame, i) => ({ frame, i }))
+        .sort((a, b) => a.frame.zIndex - b.frame.zIndex || a.i - b.i);
+
+      ordered.forEach(({ frame }) => {
+        if (frame.opacity <= 0 || frame.width <= 0 || frame.height <= 0) return;
+        ctx.globalAlpha = Math.min(frame.opacity, 1);
+        ctx.fillStyle = frame.color;
+        ctx.beginPath();
+        ctx.ellipse(frame.x, frame.y, frame.width / 2, frame.height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.globalAlpha = 1;
+    },
+
+    resize() {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(window.innerWidth * dpr);
+      canvas.height = Math.round(window.innerHeight * dpr);
+      // Resizing clears the bitmap — redraw what was there
+      renderer.render(lastFrames);
+    },
+
+    destroy() {
+      canvas.remove();
+      lastFrames = [];
+    },
+  };
+
+  renderer.resize();
+  return renderer;
+}
+
+// ==============================================
+// FACTORY
+// ==============================================
+
+/**
+ * Create the requested renderer. Falls back to SVG when a 2D canvas
+ * context isn't available.
+ */
+export function createDotRenderer(
+  kind: DotRendererKind,
+  container: HTMLElement,
+): DotRenderer {
+  if (kind === "canvas") {
+    const ctx = document.createElement("canvas").getContext("2d");
+    if (ctx) return createCanvasRenderer(container, ctx);
+    console.warn("[dots-renderer] Canvas 2D unavailable. Falling back to SVG.");
+  }
+  return createSvgRenderer(container);
+}
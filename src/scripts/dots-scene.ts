@@ -0,0 +1,394 @@
+import type { SceneContext, SceneDescription } from "./dots-choreography";
+
+// ==============================================
+// RESPONSIVE VALUES
+// ==============================================
+
+const peakOrbitRadius = { mobile: (c: SceneContext) => c.vw * 0.7, desktop: 700 };
+const elRadiusX = (c: SceneContext) => (c.isMobile ? Math.min(110, c.vw * 0.3) : 270);
+const elRadiusY = (c: SceneContext) => (c.isMobile ? 65 : 155);
+const elRadiusXMax = (c: SceneContext) => (c.isMobile ? Math.min(130, c.vw * 0.34) : 310);
+const elRadiusYMax = (c: SceneContext) => (c.isMobile ? 80 : 175);
+
+// Derive baseSize purely from viewport width — no DOM measurement needed.
+// Logo is w-[80vw] max-w-4xl (max-w-4xl = 896px at 16px base).
+// ~2.7% of logo width matches the "e" eye holes across all screen sizes.
+// This is always accurate from frame 0 and never causes mid-animation jumps.
+const eyeSize = (c: SceneContext) => Math.min(c.vw * 0.8, 896) * 0.027;
+
+// Rendered width of a dot at a given scale, for spacing relative to it
+const dotWidth = (scale: number) => (c: SceneContext) => eyeSize(c) * scale;
+
+// The eyes in the two "e" letters of the logo
+const logoEyes = [
+  { id: "dot1", baseXPercent: -0.02, baseYPercent: -0.05, orbitAngle: 180 },
+  { id: "dot2", baseXPercent: 0.1, baseYPercent: -0.05, orbitAngle: 0 },
+];
+
+// ==============================================
+// MASTER SCENE: Hero through Footer
+// Wiggle flows into orbit flows into ellipse - no stops
+// ==============================================
+
+export const dotsScene: SceneDescription = {
+  trigger: { start: "#hero", end: "#contact", scrub: 0.5 },
+
+  // The eyes in the two "e" letters of the logo.
+  // Small dot1 shies away from the pointer, big dot2 is curious and leans in.
+  dots: [
+    {
+      ...logoEyes[0],
+      pointerStrength: 70,
+      pointerRadius: 220,
+      pointerDamping: 9,
+    },
+    {
+      ...logoEyes[1],
+      pointerStrength: -35,
+      pointerRadius: 320,
+      pointerDamping: 14,
+    },
+  ],
+
+  dotSize: eyeSize,
+
+  // Pupils follow the visitor at rest, and hand over before the wiggle peaks
+  eyes: {
+    fadeOut: { section: "#hero", at: 0.1 },
+    travel: { x: 0.35, y: 0.25 },
+  },
+
+  // Resting in the logo — the defaults, plus the ring the ellipse rounds
+  // out into at the contact form (as wide as the ellipse, on average)
+  entry: {
+    formation: { ringRadius: (c) => (elRadiusX(c) + elRadiusY(c)) / 2 },
+  },
+
+  keyframes: [
+    // === Wiggle phase (first 40% of hero) ===
+    {
+      label: "wiggle-out",
+      target: { dots: ["dot1", "dot2"] },
+      start: { section: "#hero", at: 0 },
+      end: { section: "#hero", at: 0.2 },
+      to: { offsetX: { mobile: 15, desktop: 30 } },
+    },
+    {
+      label: "wiggle-back",
+      target: { dots: ["dot1", "dot2"] },
+      start: { section: "#hero", at: 0.2 },
+      end: { section: "#hero", at: 0.4 },
+      to: { offsetX: 0 },
+    },
+
+    // === EXPLOSION: Everything happens together at 40% of hero ===
+    {
+      label: "color-dot1",
+      target: { dots: ["dot1"] },
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#hero", at: 1 },
+      to: { color: (c) => c.colors.green },
+    },
+    {
+      label: "color-dot2",
+      target: { dots: ["dot2"] },
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#hero", at: 1 },
+      to: { color: (c) => c.colors.orange },
+    },
+    // Logo scales up and exits - synchronized with dots
+    {
+      label: "logo-exit",
+      target: { selector: ".hero-content" },
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#about", at: 0.35 },
+      to: { scale: { mobile: 2, desktop: 3.5 }, y: "-100vh" },
+      ease: "power2.out",
+    },
+    {
+      label: "scale-up-dot1",
+      target: { dots: ["dot1"] },
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#about", at: 0.1 },
+      to: { scale: { mobile: 28, desktop: 40 } },
+      ease: "power2.out",
+    },
+    {
+      label: "scale-up-dot2",
+      target: { dots: ["dot2"] },
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#about", at: 0.1 },
+      to: { scale: { mobile: 40, desktop: 60 } },
+      ease: "power2.out",
+    },
+    // Orbit radius and angle start TOGETHER - spiral outward while rotating
+    {
+      label: "orbit-expand",
+      target: "globalState",
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#about", at: 0.1 },
+      to: { orbitRadius: peakOrbitRadius },
+      ease: "power2.out",
+    },
+    // Global orbit rotation: continues through expansion AND contraction (spiral in + out)
+    {
+      label: "orbit-rotate",
+      target: "globalState",
+      start: { section: "#hero", at: 0.4 },
+      end: { section: "#process", at: 0 },
+      to: { orbitAngle: 540 },
+      ease: "none",
+    },
+
+    // === Scale down - starts when scale-up ends to avoid overlap ===
+    {
+      label: "scale-down-dot1",
+      target: { dots: ["dot1"] },
+      start: { section: "#about", at: 0.1 },
+      end: { section: "#process", at: 0 },
+      to: { scale: { mobile: 8, desktop: 6 } },
+      ease: "power1.inOut",
+    },
+    {
+      label: "scale-down-dot2",
+      target: { dots: ["dot2"] },
+      start: { section: "#about", at: 0.1 },
+      end: { section: "#process", at: 0 },
+      to: { scale: { mobile: 10, desktop: 8 } },
+      ease: "power1.inOut",
+    },
+    // Radius contracts AFTER dots are small - safer transition
+    {
+      label: "orbit-contract",
+      target: "globalState",
+      start: { section: "#about", at: 0.25 },
+      end: { section: "#stage-concept", at: 0.2 },
+      to: { orbitRadius: 0 },
+      ease: "power2.in",
+    },
+
+    // === TRANSITION: Global orbit spirals IN, ellipse orbit spirals OUT ===
+    {
+      label: "ellipse-blend",
+      target: "globalState",
+      start: { section: "#about", at: 0 },
+      end: { section: "#process", at: 0 },
+      to: { ellipseBlend: 1 },
+      ease: "power1.inOut",
+    },
+    // Ellipse orbit rotation: one continuous animation, constant speed
+    {
+      label: "ellipse-rotate",
+      target: "ellipseOrbit",
+      start: { section: "#about", at: 0 },
+      end: { section: "#contact", at: 1 },
+      from: { angle: 540 },
+      to: { angle: 4545 },
+      ease: "none",
+    },
+    // Once the ellipse has taken over it never quite stops: a slow turn
+    // and a gentle breath that carry on while the page is still
+    {
+      label: "ellipse-idle",
+      target: "ellipseOrbit",
+      start: { section: "#about", at: 0.6 },
+      end: { section: "#process", at: 0 },
+      to: { driftSpeed: 4, breathDepth: 0.03 },
+    },
+    {
+      label: "ellipse-expand",
+      target: "ellipseOrbit",
+      start: { section: "#about", at: 0 },
+      end: { section: "#about", at: 0.6 },
+      to: { radiusX: elRadiusX, radiusY: elRadiusY },
+      ease: "power2.out",
+    },
+
+    // === Process section scale - dots diverge in size ===
+    {
+      label: "process-scale-dot1",
+      target: { dots: ["dot1"] },
+      start: { section: "#stage-concept", at: 0 },
+      end: { section: "#stage-concept", at: 0.45 },
+      to: { scale: 16 },
+      ease: "power1.inOut",
+      only: "mobile",
+    },
+    // Desktop: dot2 grows large while dot1 stays at rest — dramatic size ratio
+    {
+      label: "process-scale-dot2",
+      target: { dots: ["dot2"] },
+      start: { section: "#stage-concept", at: 0 },
+      end: { section: "#stage-concept", at: 0.45 },
+      to: { scale: { mobile: 20, desktop: 18 } },
+      ease: "power1.inOut",
+    },
+
+    // === Breathing size changes - organic pulsing, one breath per stage ===
+    {
+      label: "breath-concept",
+      target: "ellipseOrbit",
+      start: { section: "#stage-concept", at: 0.35 },
+      end: { section: "#stage-design", at: 0.35 },
+      to: { radiusX: elRadiusXMax, radiusY: elRadiusYMax },
+    },
+    {
+      label: "breath-design",
+      target: "ellipseOrbit",
+      start: { section: "#stage-design", at: 0.5 },
+      end: { section: "#stage-build", at: 0.5 },
+      to: { radiusX: (c) => elRadiusX(c) * 0.9, radiusY: (c) => elRadiusY(c) * 0.85 },
+    },
+    {
+      label: "breath-build",
+      target: "ellipseOrbit",
+      start: { section: "#stage-build", at: 0.65 },
+      end: { section: "#stage-host", at: 0.65 },
+      to: { radiusX: (c) => elRadiusX(c) * 1.1, radiusY: elRadiusY },
+    },
+    {
+      label: "breath-host",
+      target: "ellipseOrbit",
+      start: { section: "#stage-host", at: 0.8 },
+      end: { section: "#stage-maintain", at: 0.8 },
+      to: { radiusX: elRadiusX, radiusY: (c) => elRadiusY(c) * 0.92 },
+    },
+
+    // === Contact: once everything has merged, the ellipse rounds out into
+    // a flat ring, complete by the bottom of the page ===
+    {
+      label: "ring-contact",
+      target: "formation",
+      start: { section: "#stage-maintain", at: 0.6 },
+      end: { section: "#contact", at: 1 },
+      to: { ring: 1 },
+      ease: "power1.inOut",
+    },
+  ],
+
+  // === One motif per process stage (Concept is the size split above) ===
+  motifs: [
+    // Design: ideas multiply — the small dot divides
+    {
+      label: "split-design",
+      kind: "split",
+      source: "dot1",
+      into: "dot3",
+      direction: "horizontal",
+      distance: { mobile: dotWidth(16 * 0.8), desktop: dotWidth(6 * 0.9) },
+      start: { section: "#stage-design", at: 0.1 },
+      end: { section: "#stage-design", at: 0.5 },
+    },
+    // Build: the big one stacks up on itself
+    {
+      label: "split-build",
+      kind: "split",
+      source: "dot2",
+      into: "dot4",
+      direction: "vertical",
+      distance: { mobile: dotWidth(20 * 0.6), desktop: dotWidth(18 * 0.6) },
+      start: { section: "#stage-build", at: 0.1 },
+      end: { section: "#stage-build", at: 0.5 },
+    },
+    // Host: servers circling the stack
+    {
+      label: "satellites-host",
+      kind: "satellites",
+      parent: "dot2",
+      ids: ["server1", "server2", "server3"],
+      radius: { mobile: dotWidth(20 * 0.95), desktop: dotWidth(18 * 0.95) },
+      scale: 2.5,
+      turns: 1,
+      start: { section: "#stage-host", at: 0.1 },
+      end: { section: "#stage-maintain", at: 0.2 },
+    },
+    // Maintain: everything settles back into two
+    {
+      label: "merge-maintain-small",
+      kind: "merge",
+      dots: ["dot1", "dot3"],
+      start: { section: "#stage-maintain", at: 0.2 },
+      end: { section: "#stage-maintain", at: 0.6 },
+    },
+    {
+      label: "merge-maintain-big",
+      kind: "merge",
+      dots: ["dot2", "dot4"],
+      start: { section: "#stage-maintain", at: 0.2 },
+      end: { section: "#stage-maintain", at: 0.6 },
+    },
+  ],
+
+  // Reduced motion: the dots hold one composed pose per section instead of orbiting
+  poses: [
+    { section: "#hero", at: 0 }, // resting in the logo
+    { section: "#about", at: 1 }, // small, settled on the ellipse
+    { section: "#stage-concept", at: 0.5 },
+    { section: "#stage-design", at: 0.5 },
+    { section: "#stage-build", at: 0.5 },
+    { section: "#stage-host", at: 0.5 },
+    { section: "#stage-maintain", at: 0.5 },
+    { section: "#contact", at: 1 },
+  ],
+};
+
+// ==============================================
+// WORK SCENE: case study index and detail pages
+// No logo to rest in — the page opens with the dots already colored and
+// orbiting, so arriving from the home page they glide straight into it.
+// ==============================================
+
+export const workScene: SceneDescription = {
+  trigger: { start: "#page-intro", end: "#contact", scrub: 0.5 },
+
+  dots: logoEyes,
+
+  dotSize: eyeSize,
+
+  entry: {
+    dots: {
+      dot1: { color: (c) => c.colors.green, scale: { mobile: 8, desktop: 6 } },
+      dot2: { color: (c) => c.colors.orange, scale: { mobile: 10, desktop: 8 } },
+    },
+    globalState: { ellipseBlend: 1 },
+    ellipseOrbit: {
+      radiusX: elRadiusX,
+      radiusY: elRadiusY,
+      angle: 540,
+      driftSpeed: 4,
+      breathDepth: 0.03,
+    },
+  },
+
+  keyframes: [
+    {
+      label: "ellipse-rotate",
+      target: "ellipseOrbit",
+      start: { section: "#page-intro", at: 0 },
+      end: { section: "#contact", at: 1 },
+      to: { angle: 1980 },
+      ease: "none",
+    },
+    {
+      label: "breath",
+      target: "ellipseOrbit",
+      start: { section: "#page-intro", at: 0.5 },
+      end: { section: "#contact", at: 0 },
+      to: { radiusX: elRadiusXMax, radiusY: elRadiusYMax },
+      ease: "sine.inOut",
+    },
+  ],
+
+  poses: [
+    { section: "#page-intro", at: 0 },
+    { section: "#contact", at: 1 },
+  ],
+};
+
+// Scenes a page can pick through <FloatingDots scene="…" />
+export const scenes = {
+  home: dotsScene,
+  work: workScene,
+};
+
+export type SceneName = keyof typeof scenes;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { dotsScene } from "./dots-scene";
+import { palette } from "./dots-palette";
+import { simulateDots, type DotFrame } from "./dots-simulation";
+
+// A hand-measured home page: section start/end as master progress
+const layout = {
+  "#hero": { start: 0, end: 0.1 },
+  "#about": { start: 0.1, end: 0.25 },
+  "#process": { start: 0.25, end: 0.3 },
+  "#stage-concept": { start: 0.3, end: 0.44 },
+  "#stage-design": { start: 0.44, end: 0.58 },
+  "#stage-build": { start: 0.58, end: 0.72 },
+  "#stage-host": { start: 0.72, end: 0.86 },
+  "#stage-maintain": { start: 0.86, end: 0.98 },
+  "#contact": { start: 0.98, end: 1.2 },
+};
+
+const viewport = { width: 1440, height: 900 };
+
+function framesAt(progress: number): Record<string, DotFrame> {
+  const frames = simulateDots(progress, viewport, null, { scene: dotsScene, layout, colors: palette });
+  return Object.fromEntries(frames.map((frame) => [frame.id, frame]));
+}
+
+describe("simulateDots", () => {
+  it("starts with the two eyes in the logo", () => {
+    const frames = framesAt(0);
+    expect(Object.keys(frames)).toEqual(["dot1", "dot2"]);
+    expect(frames.dot1.x).toBeCloseTo(712, 0);
+    expect(frames.dot2.x).toBeCloseTo(760, 0);
+    expect(frames.dot1.y).toBeCloseTo(frames.dot2.y);
+  });
+
+  it("plays the split motifs", () => {
+    const design = framesAt(0.5);
+    expect(Object.keys(design)).toEqual(["dot1", "dot2", "dot3"]);
+    // Split sideways: same row, the new dot to the right
+    expect(design.dot3.y).toBeCloseTo(design.dot1.y);
+    expect(design.dot3.x).toBeGreaterThan(design.dot1.x);
+
+    const build = framesAt(0.7);
+    expect(Object.keys(build)).toEqual(["dot1", "dot2", "dot3", "dot4"]);
+    // Split vertically: same column, the new dot below
+    expect(build.dot4.x).toBeCloseTo(build.dot2.x);
+    expect(build.dot4.y).toBeGreaterThan(build.dot2.y + build.dot2.height / 2);
+  });
+
+  it("adds the server satellites only while hosting", () => {
+    expect(Object.keys(framesAt(0.8))).toEqual(expect.arrayContaining(["server1", "server2", "server3"]));
+    expect(Object.keys(framesAt(0.7))).not.toContain("server1");
+  });
+
+  it("merges back into two dots on a ring at the contact form", () => {
+    expect(Object.keys(framesAt(0.95))).toEqual(["dot1", "dot2"]);
+
+    const frames = framesAt(1);
+    // Ring radius: the desktop ellipse's average radius, (270 + 155) / 2
+    Object.values(frames).forEach((frame) => {
+      expect(Math.hypot(frame.x - 720, frame.y - 450)).toBeCloseTo(212.5, 0);
+    });
+  });
+
+  it("gives the same frames for the same progress", () => {
+    expect(framesAt(0.55)).toEqual(framesAt(0.55));
+  });
+});
@@ -0,0 +1,538 @@
+import gsap from "gsap";
+import {
+  compileScene,
+  createSceneContext,
+  resolveEntry,
+  resolveMotifs,
+  resolveScene,
+  type ResolvedEntry,
+  type SceneDescription,
+  type SceneLayout,
+} from "./dots-choreography";
+import {
+  createFormationState,
+  ellipseSlot,
+  glyphSlot,
+  gridSlot,
+  ringSlot,
+  type EllipseShape,
+  type FormationArea,
+  type FormationState,
+} from "./dots-formations";
+import { createDotSet, createMotifHelpers, resolveStateTarget } from "./dots-motifs";
+
+// ==============================================
+// PURE DOTS SIMULATION
+// No DOM, no window, no module state: the same inputs always give the
+// same frames. The live page feeds its GSAP-driven state through
+// computeDotFrames(); simulateDots() builds the scene, motifs and all, on
+// its own paused timeline, so frames at any scroll progress can be
+// checked in Node.
+// ==============================================
+
+// ==============================================
+// TYPES
+// ==============================================
+
+export interface DotState {
+  id: string;
+
+  // Base position (logo-relative percentages)
+  baseXPercent: number;
+  baseYPercent: number;
+
+  // Animation offsets
+  offsetX: number;
+  offsetY: number;
+
+  // Size and shape
+  baseSize: number;
+  scale: number;
+  scaleX: number; // 1 = normal, >1 = stretched horizontally
+  scaleY: number; // 1 = normal, >1 = stretched vertically
+
+  // Orbit (around viewport center or parent)
+  orbitAngle: number;
+  orbitRadius: number;
+
+  // Appearance
+  color: string;
+  opacity: number;
+
+  // Hierarchy (for satellites)
+  parentId: string | null;
+  satelliteOrbitRadius: number; // orbit distance from parent
+  satelliteOrbitSpeed: number; // degrees per second (for continuous orbit), 0 = scroll-driven
+
+  // Pointer interaction (see dots-pointer.ts)
+  pointerStrength: number; // px; >0 pushes away from the pointer, <0 draws toward it, 0 = ignores it
+  pointerRadius: number; // px; how far the pointer's influence reaches
+  pointerDamping: number; // spring damping; higher settles faster with less wobble
+  springX: number; // current spring offset (px), added on top of the scroll-driven position
+  springY: number;
+
+  // Idle eye tracking (see dots-eyes.ts)
+  lookX: number; // pupil offset (px) inside the logo's "e"
+  lookY: number;
+  blink: number; // 0 = open, 1 = closed (squashes the height)
+}
+
+// Shared animation state (for properties that affect all dots together)
+export interface GlobalState {
+  orbitAngle: number;
+  orbitRadius: number;
+  ellipseBlend: number; // 0 = global orbit, 1 = ellipse orbit
+}
+
+// Elliptical orbit state (for depth effect) — centered on the viewport
+export interface EllipseOrbitState {
+  active: boolean;
+  radiusX: number; // horizontal radius (wider)
+  radiusY: number; // vertical radius (shorter for perspective)
+  depthScale: number; // how much to scale down when "behind" (0-1, 0.5 = 50% smaller at back)
+  angle: number; // current rotation angle in degrees
+
+  // Idle motion on top of the scroll. The scene tweens the speeds; the
+  // clock (advanceClock) moves the phases, so it carries on while the page is still
+  driftSpeed: number; // degrees per second the ellipse keeps turning
+  driftAngle: number; // degrees turned so far
+  breathDepth: number; // radius swell, fraction of the radii
+  breathPeriod: number; // seconds per breath
+  breathPhase: number; // 0-1 through the current breath
+}
+
+export interface SimulationState {
+  dots: DotState[]; // draw order, and each dot's slot in a formation
+  globalState: GlobalState;
+  ellipseOrbit: EllipseOrbitState;
+  formation: FormationState;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// Same shape as DOMRect, so getBoundingClientRect() can be passed straight in
+export interface LogoRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Everything needed to draw one dot — output of the position/size math */
+export interface DotFrame {
+  id: string;
+  x: number; // center, viewport px
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  opacity: number;
+  zIndex: number; // higher draws on top; ties keep map order
+}
+
+export interface SceneConfig {
+  scene: SceneDescription;
+  layout: SceneLayout; // from measureSceneLayout(), or hand-written in tests
+  colors: Record<string, string>;
+}
+
+// ==============================================
+// STATE
+// ==============================================
+
+export function createDotState(
+  id: string,
+  options: Partial<DotState> = {},
+): DotState {
+  return {
+    id,
+    baseXPercent: options.baseXPercent ?? 0,
+    baseYPercent: options.baseYPercent ?? 0,
+    offsetX: options.offsetX ?? 0,
+    offsetY: options.offsetY ?? 0,
+    baseSize: options.baseSize ?? 24,
+    scale: options.scale ?? 1,
+    scaleX: options.scaleX ?? 1,
+    scaleY: options.scaleY ?? 1,
+    orbitAngle: options.orbitAngle ?? 0,
+    orbitRadius: options.orbitRadius ?? 0,
+    color: options.color ?? "#212121",
+    opacity: options.opacity ?? 1,
+    parentId: options.parentId ?? null,
+    satelliteOrbitRadius: options.satelliteOrbitRadius ?? 0,
+    satelliteOrbitSpeed: options.satelliteOrbitSpeed ?? 0,
+    pointerStrength: options.pointerStrength ?? 0,
+    pointerRadius: options.pointerRadius ?? 200,
+    pointerDamping: options.pointerDamping ?? 10,
+    springX: options.springX ?? 0,
+    springY: options.springY ?? 0,
+    lookX: options.lookX ?? 0,
+    lookY: options.lookY ?? 0,
+    blink: options.blink ?? 0,
+  };
+}
+
+export function createGlobalState(): GlobalState {
+  return { orbitAngle: 0, orbitRadius: 0, ellipseBlend: 0 };
+}
+
+// Starts at radius 0 - will expand outward as it takes over from global orbit
+export function createEllipseOrbitState(): EllipseOrbitState {
+  return {
+    active: false,
+    radiusX: 0,
+    radiusY: 0,
+    depthScale: 0.4,
+    angle: 0,
+    driftSpeed: 0,
+    driftAngle: 0,
+    breathDepth: 0,
+    breathPeriod: 6,
+    breathPhase: 0,
+  };
+}
+
+/** The state at progress 0: scene dots at rest in the logo */
+export function createSceneState(
+  config: SceneConfig,
+  viewport: Viewport,
+): SimulationState {
+  const ctx = createSceneContext(viewport, config.colors);
+  const baseSize = config.scene.dotSize(ctx);
+
+  return applyEntry(
+    {
+      dots: config.scene.dots.map((dot) =>
+        createDotState(dot.id, { ...dot, baseSize, color: ctx.colors.dark }),
+      ),
+      globalState: createGlobalState(),
+      ellipseOrbit: createEllipseOrbitState(),
+      formation: createFormationState(),
+    },
+    resolveEntry(config.scene, ctx),
+  );
+}
+
+/** Put the state into the scene's entry pose. Mutates and returns `state`. */
+export function applyEntry(state: SimulationState, entry: ResolvedEntry): SimulationState {
+  state.dots.forEach((dot) => {
+    if (entry.dots[dot.id]) Object.assign(dot, entry.dots[dot.id]);
+  });
+  Object.assign(state.globalState, entry.globalState);
+  Object.assign(state.ellipseOrbit, entry.ellipseOrbit);
+  Object.assign(state.formation, entry.formation);
+  return state;
+}
+
+// ==============================================
+// SAMPLING
+// ==============================================
+
+/**
+ * The state at a master progress. The scene is built the way the page
+ * builds it — motifs first (dots-motifs.ts), then the keyframes — on a
+ * paused timeline, which is then seeked to `progress`. Selector targets
+ * are DOM-only and skipped. Returns a new state.
+ */
+export function sampleScene(
+  config: SceneConfig,
+  viewport: Viewport,
+  progress: number,
+): SimulationState {
+  const ctx = createSceneContext(viewport, config.colors);
+  const { dots, ...shared } = createSceneState(config, viewport);
+  const set = createDotSet((id, options) => createDotState(id, { color: ctx.colors.dark, ...options }));
+  dots.forEach((dot) => set.create(dot.id, dot));
+
+  const timeline = gsap.timeline({ paused: true });
+  createMotifHelpers(set, () => {}).compileMotifs(
+    timeline,
+    resolveMotifs(config.scene, config.layout, ctx),
+  );
+  compileScene(timeline, resolveScene(config.scene, config.layout, ctx), (target) =>
+    typeof target === "object" && "selector" in target
+      ? null
+      : resolveStateTarget(target, set, shared),
+  );
+
+  timeline.progress(progress);
+  set.sync();
+  timeline.kill();
+  return { dots: [...set.dots.values()], ...shared };
+}
+
+// ==============================================
+// LAYOUT MATH
+// ==============================================
+
+const DEFAULT_LOGO_WIDTH = 400;
+const DEFAULT_LOGO_HEIGHT = 100;
+const MAX_BLINK_SQUASH = 0.9; // a fully closed eye keeps 10% of its height
+
+function getRenderedPosition(
+  dot: DotState,
+  globalState: GlobalState,
+  logo: { x: number; y: number; width: number; height: number },
+  viewportCenterX: number,
+  viewportCenterY: number,
+): { x: number; y: number } {
+  // Logo-relative position (offsets are added on top of the final position)
+  const logoRelX = logo.x + logo.width * dot.baseXPercent;
+  const logoRelY = logo.y + logo.height * dot.baseYPercent;
+
+  // Phase drift for global orbit - dots aren't perfectly opposite
+  // dot1 (orbitAngle=180) gets a subtle drift based on current angle
+  const driftAmount =
+    dot.orbitAngle > 0
+      ? Math.sin((globalState.orbitAngle * 0.08 * Math.PI) / 180) * 20
+      : 0;
+
+  // Global orbit position (around viewport center)
+  const angle =
+    ((globalState.orbitAngle + dot.orbitAngle + driftAmount) * Math.PI) / 180;
+  const orbitX = viewportCenterX + Math.cos(angle) * globalState.orbitRadius;
+  const orbitY = viewportCenterY + Math.sin(angle) * globalState.orbitRadius;
+
+  // Blend based on orbit radius
+  const maxOrbitForBlend = 100;
+  const blendFactor = Math.min(globalState.orbitRadius / maxOrbitForBlend, 1);
+
+  return {
+    x: logoRelX + (orbitX - logoRelX) * blendFactor,
+    y: logoRelY + (orbitY - logoRelY) * blendFactor,
+  };
+}
+
+/** The ellipse as drawn: its scrolled shape, turned and swelled by the idle motion */
+export function idleEllipse(orbit: EllipseOrbitState): EllipseShape {
+  const breath = 1 + orbit.breathDepth * Math.sin(orbit.breathPhase * Math.PI * 2);
+  return {
+    radiusX: orbit.radiusX * breath,
+    radiusY: orbit.radiusY * breath,
+    depthScale: orbit.depthScale,
+    angle: orbit.angle + orbit.driftAngle,
+  };
+}
+
+/**
+ * Turn a dot state snapshot into renderer-ready frames.
+ * logoRect = null centers a default-sized logo in the viewport.
+ */
+export function computeDotFrames(
+  state: SimulationState,
+  viewport: Viewport,
+  logoRect: LogoRect | null,
+): DotFrame[] {
+  const { globalState, ellipseOrbit, formation } = state;
+
+  const viewportCenterX = viewport.width / 2;
+  const viewportCenterY = viewport.height / 2;
+
+  // Logo center and size
+  const logo = logoRect
+    ? {
+        x: logoRect.left + logoRect.width / 2,
+        y: logoRect.top + logoRect.height / 2,
+        width: logoRect.width,
+        height: logoRect.height,
+      }
+    : {
+        x: viewportCenterX,
+        y: viewportCenterY,
+        width: DEFAULT_LOGO_WIDTH,
+        height: DEFAULT_LOGO_HEIGHT,
+      };
+
+  const area: FormationArea = { centerX: viewportCenterX, centerY: viewportCenterY, logo };
+  const ellipse = idleEllipse(ellipseOrbit);
+  const mix = (from: { x: number; y: number }, to: { x: number; y: number }, t: number) => ({
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+  });
+
+  // Only top-level dots take a slot in the formations; split halves and
+  // satellites ride along with their parent
+  const roots = state.dots.filter((dot) => !dot.parentId);
+  const count = roots.length;
+
+  const ellipseSlots =
+    globalState.ellipseBlend > 0
+      ? roots.map((_, i) => ellipseSlot(i, count, ellipse, formation.drift, area))
+      : [];
+
+  // Z-order when in ellipse mode: the dot furthest in front draws on top
+  const zIndices: number[] = [];
+  if (globalState.ellipseBlend > 0.5) {
+    ellipseSlots
+      .map((slot, i) => ({ i, sin: slot.sin }))
+      .sort((a, b) => a.sin - b.sin)
+      .forEach(({ i }, rank) => (zIndices[i] = rank + 1));
+  }
+
+  // Where each dot sits before its own offsets
+  type Anchor = { x: number; y: number; depth: number; zIndex: number };
+  const anchors = new Map<string, Anchor>();
+
+  roots.forEach((dot, index) => {
+    // Logo ↔ global orbit, then the formations layered on top, each pulling
+    // the dot toward its slot by its weight
+    let pos = getRenderedPosition(dot, globalState, logo, viewportCenterX, viewportCenterY);
+    let depth = 1;
+
+    if (globalState.ellipseBlend > 0) {
+      const slot = ellipseSlots[index];
+      pos = mix(pos, slot, globalState.ellipseBlend);
+      // Depth fades in quadratically, so it only shows once the ellipse has taken over
+      depth = 1 + (slot.depth - 1) * globalState.ellipseBlend ** 2;
+    }
+    if (formation.ring > 0) {
+      pos = mix(pos, ringSlot(index, count, formation.ringRadius, ellipse.angle, area), formation.ring);
+      depth += (1 - depth) * formation.ring;
+    }
+    if (formation.grid > 0) {
+      pos = mix(pos, gridSlot(index, count, formation.gridColumns, formation.gridGap, area), formation.grid);
+      depth += (1 - depth) * formation.grid;
+    }
+    if (formation.glyph > 0) {
+      pos = mix(pos, glyphSlot(index, count, area), formation.glyph);
+      depth += (1 - depth) * formation.glyph;
+    }
+
+    anchors.set(dot.id, { ...pos, depth, zIndex: zIndices[index] ?? 0 });
+  });
+
+  // Children orbit their parent's anchor (radius 0 for split halves) and
+  // share its depth; orphans wait in the viewport center. The id lookup is
+  // only built once a child turns up
+  let byId: Map<string, DotState> | null = null;
+  const anchorOf = (dot: DotState, visiting: Set<string> = new Set()): Anchor => {
+    const known = anchors.get(dot.id);
+    if (known) return known;
+
+    const parent = dot.parentId
+      ? (byId ??= new Map(state.dots.map((other) => [other.id, other]))).get(dot.parentId)
+      : undefined;
+    let anchor: Anchor = { x: viewportCenterX, y: viewportCenterY, depth: 1, zIndex: 0 };
+    if (parent && !visiting.has(parent.id)) {
+      visiting.add(dot.id);
+      const base = anchorOf(parent, visiting);
+      const angle = (dot.orbitAngle * Math.PI) / 180;
+      anchor = {
+        ...base,
+        x: base.x + Math.cos(angle) * dot.satelliteOrbitRadius,
+        y: base.y + Math.sin(angle) * dot.satelliteOrbitRadius,
+      };
+    }
+    anchors.set(dot.id, anchor);
+    return anchor;
+  };
+
+  return state.dots.map((dot) => {
+    const anchor = anchorOf(dot);
+    const x = anchor.x + dot.offsetX;
+    const y = anchor.y + dot.offsetY;
+    const depthMultiplier = anchor.depth;
+
+    // Calculate final size with independent X/Y scaling + depth
+    const baseSize = dot.baseSize * dot.scale * depthMultiplier;
+    const width = baseSize * dot.scaleX;
+    const height = baseSize * dot.scaleY * (1 - dot.blink * MAX_BLINK_SQUASH);
+
+    return {
+      id: dot.id,
+      x: x + dot.springX + dot.lookX,
+      y: y + dot.springY + dot.lookY,
+      width,
+      height,
+      color: dot.color,
+      opacity: dot.opacity,
+      zIndex: anchor.zIndex,
+    };
+  });
+}
+
+/**
+ * Cross-fade between two sets of frames, t = 0 → `from`, 1 → `to`.
+ * Dots in both glide and recolor; the rest fade in or out in place.
+ */
+export function blendDotFrames(from: DotFrame[], to: DotFrame[], t: number): DotFrame[] {
+  if (t >= 1) return to;
+
+  const previous = new Map(from.map((frame) => [frame.id, frame]));
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+
+  const blended = to.map((frame) => {
+    const start = previous.get(frame.id);
+    if (!start) return { ...frame, opacity: frame.opacity * t };
+    return {
+      ...frame,
+      x: lerp(start.x, frame.x),
+      y: lerp(start.y, frame.y),
+      width: lerp(start.width, frame.width),
+      height: lerp(start.height, frame.height),
+      color: gsap.utils.interpolate(start.color, frame.color, t),
+      opacity: lerp(start.opacity, frame.opacity),
+    };
+  });
+
+  const current = new Set(to.map((frame) => frame.id));
+  from.forEach((frame) => {
+    if (!current.has(frame.id)) blended.push({ ...frame, opacity: frame.opacity * (1 - t) });
+  });
+
+  return blended;
+}
+
+// ==============================================
+// CLOCK
+// ==============================================
+
+/**
+ * Advance what moves with time instead of scroll by `dt` seconds: the
+ * ellipse's idle drift and breath, and satellites with an orbit speed.
+ * Mutates `state`; returns whether anything visible moved.
+ */
+export function advanceClock(state: SimulationState, dt: number): boolean {
+  const { ellipseOrbit } = state;
+  const ellipseShown = state.globalState.ellipseBlend > 0;
+  let moved = false;
+
+  // Unwrapped: ellipseSlot() derives the dots' drift phases from the angle
+  if (ellipseOrbit.driftSpeed !== 0) {
+    ellipseOrbit.driftAngle += ellipseOrbit.driftSpeed * dt;
+    moved ||= ellipseShown;
+  }
+  if (ellipseOrbit.breathDepth !== 0 && ellipseOrbit.breathPeriod > 0) {
+    ellipseOrbit.breathPhase = (ellipseOrbit.breathPhase + dt / ellipseOrbit.breathPeriod) % 1;
+    moved ||= ellipseShown;
+  }
+
+  state.dots.forEach((dot) => {
+    if (dot.satelliteOrbitSpeed === 0 || !dot.parentId) return;
+    if (!state.dots.some((parent) => parent.id === dot.parentId)) return;
+    dot.orbitAngle += dot.satelliteOrbitSpeed * dt;
+    moved = true;
+  });
+
+  return moved;
+}
+
+// ==============================================
+// SIMULATE
+// ==============================================
+
+/**
+ * The dots at a given master progress (0-1), without a browser.
+ * e.g. simulateDots(0.5, { width: 1440, height: 900 }, null, config)
+ */
+export function simulateDots(
+  progress: number,
+  viewport: Viewport,
+  logoRect: LogoRect | null,
+  config: SceneConfig,
+): DotFrame[] {
+  return computeDotFrames(sampleScene(config, viewport, progress), viewport, logoRect);
+}
@@ -0,0 +1,103 @@
+import gsap from "gsap";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { scrollToElement } from "./smooth-scroll";
+
+gsap.registerPlugin(ScrollTrigger);
+
+// ==============================================
+// LANGUAGE PREFERENCE
+// The language the visitor picked, a guess from the browser's languages
+// for first-time visitors, and the reading position carried across a
+// switch — so changing language doesn't start the page (and the dots)
+// over from the top.
+// ==============================================
+
+const CHOICE_KEY = "locale";
+const POSITION_KEY = "language-switch";
+
+// Page sections and process stages; stages come after #process in document order
+const ANCHORS = "section[id], header[id], footer[id], [data-stage][id]";
+
+/** The locale the visitor chose, if they ever did */
+export function savedLocale(): string | null {
+  try {
+    return localStorage.getItem(CHOICE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocale(code: string): void {
+  try {
+    localStorage.setItem(CHOICE_KEY, code);
+  } catch {}
+}
+
+/** First of the browser's languages we have, matched on the language part: "en-US" → "en" */
+export function negotiateLocale(
+  available: string[],
+  preferred: readonly string[] = navigator.languages,
+): string | null {
+  for (const tag of preferred) {
+    const code = tag.toLowerCase().split("-")[0];
+    if (available.includes(code)) return code;
+  }
+  return null;
+}
+
+// ==============================================
+// READING POSITION
+// ==============================================
+
+interface ReadingPosition {
+  path: string; // page it applies to
+  anchor: string; // id of the innermost section at the middle of the viewport
+  progress: number; // how far through that section the middle is, 0-1
+}
+
+/**
+ * Remember where the visitor is reading, to be restored on `path` by
+ * restoreReadingPosition(). Returns the anchor id, or null between sections.
+ */
+export function carryReadingPosition(path: string): string | null {
+  const line = window.innerHeight / 2;
+  const section = Array.from(document.querySelectorAll<HTMLElement>(ANCHORS))
+    .filter((el) => {
+      const rect = el.getBoundingClientRect();
+      return rect.top <= line && rect.bottom > line;
+    })
+    .pop();
+  if (!section) return null;
+
+  const rect = section.getBoundingClientRect();
+  const position: ReadingPosition = {
+    path,
+    anchor: section.id,
+    progress: (line - rect.top) / rect.height,
+  };
+  try {
+    sessionStorage.setItem(POSITION_KEY, JSON.stringify(position));
+  } catch {}
+  return section.id;
+}
+
+/**
+ * Scroll to the position carried over from the other language, if it was
+ * meant for this page. The refresh makes the scrubbed timelines (the dots
+ * included) jump there instead of playing through everything above it.
+ */
+export function restoreReadingPosition(): void {
+  let position: ReadingPosition | null = null;
+  try {
+    position = JSON.parse(sessionStorage.getItem(POSITION_KEY) ?? "null");
+    sessionStorage.removeItem(POSITION_KEY);
+  } catch {}
+  if (!position || position.path !== location.pathname) return;
+
+  const section = document.getElementById(position.anchor);
+  if (!section) return;
+
+  const offset = position.progress * section.offsetHeight - window.innerHeight / 2;
+  scrollToElement(section, { immediate: true, offset });
+  ScrollTrigger.refresh();
+}
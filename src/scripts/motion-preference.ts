@@ -0,0 +1,48 @@
+import gsap from "gsap";
+
+// ==============================================
+// MOTION PREFERENCE
+// Single source of truth for prefers-reduced-motion
+// ==============================================
+
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export function prefersReducedMotion(): boolean {
+  if (typeof window === "undefined" || !window.matchMedia) return false;
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/**
+ * Call `listener` whenever the OS setting flips. Returns an unsubscribe.
+ */
+export function onMotionPreferenceChange(
+  listener: (reduced: boolean) => void,
+): () => void {
+  if (typeof window === "undefined" || !window.matchMedia) return () => {};
+  const mql = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handler = (e: MediaQueryListEvent) => listener(e.matches);
+  mql.addEventListener("change", handler);
+  return () => mql.removeEventListener("change", handler);
+}
+
+/**
+ * Run `setup` now and again every time the preference changes.
+ *
+ * Built on gsap.matchMedia: every tween, timeline and ScrollTrigger created
+ * inside `setup` is reverted before it runs again, and the optional function
+ * it returns is called for anything GSAP doesn't own (listeners, Lenis).
+ * Returns a disposer that reverts everything.
+ */
+export function motionContext(
+  setup: (reduced: boolean) => void | (() => void),
+): () => void {
+  const mm = gsap.matchMedia();
+  mm.add(
+    {
+      reduced: REDUCED_MOTION_QUERY,
+      full: "(prefers-reduced-motion: no-preference)",
+    },
+    (context) => setup(!!context.conditions?.reduced),
+  );
+  return () => mm.revert();
+}
@@ -0,0 +1,69 @@
+import Lenis from "lenis";
+import gsap from "gsap";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { motionContext } from "./motion-preference";
+
+gsap.registerPlugin(ScrollTrigger);
+
+// ==============================================
+// SMOOTH SCROLL
+// The site's one Lenis instance, started by Layout.astro. Anything that
+// scrolls the page on purpose goes through scrollToElement(), so it glides
+// with Lenis — or jumps natively when Lenis is off for reduced motion.
+// ==============================================
+
+let lenis: Lenis | null = null;
+
+/**
+ * Run Lenis while the visitor hasn't asked for reduced motion.
+ * Switches live: reduced motion tears Lenis down and falls back to native scroll.
+ * Returns a disposer.
+ */
+export function startSmoothScroll(): () => void {
+  return motionContext((reduced) => {
+    if (reduced) return;
+
+    const instance = new Lenis({
+      duration: 1.2,
+      easing: (t) => Math.min(1, 1.001 - Math.pow(2, -10 * t)),
+      orientation: "vertical",
+      smoothWheel: true,
+    });
+    lenis = instance;
+
+    // Connect Lenis to GSAP ScrollTrigger
+    instance.on("scroll", ScrollTrigger.update);
+
+    const raf = (time: number) => instance.raf(time * 1000);
+    gsap.ticker.add(raf);
+
+    // The router scrolls the new page natively — catch Lenis up instead of gliding back
+    const sync = () => {
+      instance.resize();
+      instance.scrollTo(window.scrollY, { immediate: true });
+    };
+    document.addEventListener("astro:after-swap", sync);
+
+    return () => {
+      document.removeEventListener("astro:after-swap", sync);
+      gsap.ticker.remove(raf);
+      instance.destroy();
+      if (lenis === instance) lenis = null;
+    };
+  });
+}
+
+/** Scroll so the element's top (plus `offset` px) meets the viewport top */
+export function scrollToElement(
+  target: HTMLElement,
+  options: { immediate?: boolean; offset?: number } = {},
+): void {
+  const { immediate, offset = 0 } = options;
+  if (lenis) {
+    lenis.scrollTo(target, { immediate, offset, force: true });
+    return;
+  }
+  // No Lenis means reduced motion (or not started yet): jump
+  const top = target.getBoundingClientRect().top + window.scrollY + offset;
+  window.scrollTo({ top, behavior: "instant" });
+}
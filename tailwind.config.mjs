@@ -1,5 +1,6 @@
 /** @type {import('tailwindcss').Config} */
 export default {
+  darkMode: 'class',
   content: ['./src/**/*.{astro,html,js,jsx,md,mdx,svelte,ts,tsx,vue}'],
   theme: {
     extend: {
@@ -8,6 +9,7 @@ export default {
         'itsees-bg': 'var(--color-bg)',
         'itsees-bg-card': 'var(--color-bg-card)',
         'itsees-text': 'var(--color-text)',
+        'itsees-border': 'var(--color-border)',
         'itsees-blue': '#a862fe',
         'itsees-blue-light': '#c49afe',
         'itsees-orange': '#f86e2f',